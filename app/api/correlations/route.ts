@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadPriceHistory } from '@/lib/analysis/pipeline';
+import { analyzeMarkets } from '@/lib/analysis/marketLists';
+import { MIN_CORRELATION_OBSERVATIONS, calculateCorrelationMatrices } from '@/lib/analysis/correlation';
+import { resolveProviderSymbol } from '@/lib/data/symbolIndex';
+import { parseTimeframe } from '@/lib/utils/timeframe';
+import { parseStrategy } from '@/lib/utils/strategy';
+import { AssetType, CorrelationReport, PriceData } from '@/types';
+
+const ASSET_TYPES: AssetType[] = ['us_stock', 'indian_stock', 'crypto'];
+const MAX_SYMBOLS = 25;
+const MAX_WINDOWS = 4;
+const MAX_WINDOW = 1000;
+const DEFAULT_WINDOWS = [30, 90];
+const DEFAULT_TOP = 10;
+
+// `type:symbol`, or a bare symbol of the default type
+function parseSymbolList(value: string, defaultType: AssetType): { symbol: string; type: AssetType }[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+    const separator = item.indexOf(':');
+    const prefix = separator > 0 ? item.slice(0, separator) : '';
+    return ASSET_TYPES.includes(prefix as AssetType)
+      ? { type: prefix as AssetType, symbol: item.slice(separator + 1) }
+      : { type: defaultType, symbol: item };
+  });
+}
+
+function parseWindows(value: string | null): { windows: number[] } | { error: string } {
+  if (!value) {
+    return { windows: DEFAULT_WINDOWS };
+  }
+  const windows = value.split(',').map(item => Number(item.trim()));
+  if (windows.length > MAX_WINDOWS ||
+    windows.some(window => !Number.isInteger(window) || window < MIN_CORRELATION_OBSERVATIONS || window > MAX_WINDOW)) {
+    return { error: `Invalid windows: ${value} (up to ${MAX_WINDOWS} bar counts between ${MIN_CORRELATION_OBSERVATIONS} and ${MAX_WINDOW})` };
+  }
+  return { windows };
+}
+
+// Correlation of bar returns between assets, either the symbols passed in or
+// the current top recommendations. Series from different markets are aligned
+// on the dates they share, so daily bars work best across markets.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const type = params.get('type');
+    if (type && !ASSET_TYPES.includes(type as AssetType)) {
+      return NextResponse.json({ error: `Unknown asset type: ${type}` }, { status: 400 });
+    }
+
+    const windowsResult = parseWindows(params.get('windows'));
+    if ('error' in windowsResult) {
+      return NextResponse.json({ error: windowsResult.error }, { status: 400 });
+    }
+
+    const timeframeResult = parseTimeframe(params.get('interval'), params.get('lookback'));
+    if ('error' in timeframeResult) {
+      return NextResponse.json({ error: timeframeResult.error }, { status: 400 });
+    }
+    const { timeframe } = timeframeResult;
+
+    const assets: CorrelationReport['assets'] = [];
+    const series: PriceData[][] = [];
+    const skipped: CorrelationReport['skipped'] = [];
+    const symbolsParam = params.get('symbols');
+
+    if (symbolsParam) {
+      const requested = parseSymbolList(symbolsParam, (type as AssetType) || 'us_stock');
+      if (requested.length < 2 || requested.length > MAX_SYMBOLS) {
+        return NextResponse.json({ error: `Pass between 2 and ${MAX_SYMBOLS} symbols` }, { status: 400 });
+      }
+
+      // Provider calls are paced by the shared rate limiter
+      for (const { symbol, type: assetType } of requested) {
+        try {
+          const resolved = await resolveProviderSymbol(symbol, assetType);
+          const history = await loadPriceHistory(assetType, resolved.symbol, timeframe);
+          assets.push({ symbol: resolved.symbol, name: resolved.name || resolved.symbol, type: assetType });
+          series.push(history.priceData);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error(`Error loading ${symbol} for correlations:`, errorMessage);
+          skipped.push({ symbol, error: errorMessage });
+        }
+      }
+    } else {
+      const top = Number(params.get('top') || DEFAULT_TOP);
+      if (!Number.isInteger(top) || top < 2 || top > MAX_SYMBOLS) {
+        return NextResponse.json({ error: `top must be between 2 and ${MAX_SYMBOLS}` }, { status: 400 });
+      }
+
+      const strategyResult = parseStrategy(params.get('strategy'), params.get('config'));
+      if ('error' in strategyResult) {
+        return NextResponse.json({ error: strategyResult.error }, { status: 400 });
+      }
+
+      // The same lists /api/recommendations ranks, analyzed in-process. Returns
+      // are currency-neutral, so no display currency is applied.
+      const { assets: ranked } = await analyzeMarkets(
+        type ? [type as AssetType] : ASSET_TYPES,
+        timeframe,
+        strategyResult.strategies
+      );
+      ranked.filter(asset => asset.confidence >= 0).slice(0, top).forEach(asset => {
+        assets.push({ symbol: asset.symbol, name: asset.name, type: asset.type });
+        series.push(asset.priceData);
+      });
+    }
+
+    const report: CorrelationReport = {
+      source: symbolsParam ? 'symbols' : 'recommendations',
+      timeframe,
+      assets,
+      matrices: calculateCorrelationMatrices(series, windowsResult.windows),
+      skipped,
+    };
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error in correlations API:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: 'Failed to calculate correlations', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
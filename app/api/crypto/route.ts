@@ -1,55 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchCryptoData, getCryptoQuote, getCoinIdFromSymbol } from '@/lib/data/coinGecko';
-import { calculateTechnicalIndicators } from '@/lib/analysis/technicalIndicators';
-import { calculateMomentumScore } from '@/lib/analysis/momentum';
-import { analyzeTrend } from '@/lib/analysis/trends';
-import { analyzeFundamentals } from '@/lib/analysis/fundamentals';
-import { calculateOverallScore, getRecommendation, calculateConfidence } from '@/lib/utils/scoring';
-import { Asset } from '@/types';
-
-// Popular cryptocurrencies to analyze
-const CRYPTO_COINS = [
-  { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' },
-  { id: 'ethereum', symbol: 'ETH', name: 'Ethereum' },
-  { id: 'binancecoin', symbol: 'BNB', name: 'BNB' },
-  { id: 'solana', symbol: 'SOL', name: 'Solana' },
-  { id: 'cardano', symbol: 'ADA', name: 'Cardano' },
-  { id: 'ripple', symbol: 'XRP', name: 'XRP' },
-  { id: 'polkadot', symbol: 'DOT', name: 'Polkadot' },
-  { id: 'dogecoin', symbol: 'DOGE', name: 'Dogecoin' },
-  { id: 'matic-network', symbol: 'MATIC', name: 'Polygon' },
-  { id: 'avalanche-2', symbol: 'AVAX', name: 'Avalanche' },
-];
+import { analyzeAsset } from '@/lib/analysis/pipeline';
+import { CRYPTO_COINS, analyzeCryptoList } from '@/lib/analysis/marketLists';
+import { convertAssets } from '@/lib/data/fx';
+import { resolveSymbol } from '@/lib/data/symbolIndex';
+import { parseCurrency } from '@/lib/utils/currency';
+import { parseTimeframe } from '@/lib/utils/timeframe';
+import { parseStrategy } from '@/lib/utils/strategy';
 
 export async function GET(request: NextRequest) {
   try {
     const symbol = request.nextUrl.searchParams.get('symbol');
     const coinId = request.nextUrl.searchParams.get('coinId');
+    const currencyParam = request.nextUrl.searchParams.get('currency');
+    const displayCurrency = parseCurrency(currencyParam);
+
+    if (currencyParam && !displayCurrency) {
+      return NextResponse.json({ error: `Unsupported currency: ${currencyParam}` }, { status: 400 });
+    }
+
+    const timeframeResult = parseTimeframe(
+      request.nextUrl.searchParams.get('interval'),
+      request.nextUrl.searchParams.get('lookback')
+    );
+    if ('error' in timeframeResult) {
+      return NextResponse.json({ error: timeframeResult.error }, { status: 400 });
+    }
+    const { timeframe } = timeframeResult;
+
+    const strategyResult = parseStrategy(
+      request.nextUrl.searchParams.get('strategy'),
+      request.nextUrl.searchParams.get('config')
+    );
+    if ('error' in strategyResult) {
+      return NextResponse.json({ error: strategyResult.error }, { status: 400 });
+    }
+    const strategy = strategyResult.strategies.crypto;
 
     if (symbol || coinId) {
       // Analyze single cryptocurrency
-      const id = coinId || await getCoinIdFromSymbol(symbol!);
+      const knownCoin = CRYPTO_COINS.find(c => c.symbol.toLowerCase() === symbol?.toLowerCase());
+      // Many coins share a ticker; the symbol index ranks them by market cap
+      const match = coinId || knownCoin ? null : await resolveSymbol(symbol!, 'crypto');
+      const id = coinId || knownCoin?.id || match?.id || symbol!.toLowerCase();
       const coin = CRYPTO_COINS.find(c => c.id === id || c.symbol.toLowerCase() === symbol?.toLowerCase());
-      const asset = await analyzeCrypto(id, coin?.name || id);
-      return NextResponse.json({ asset });
+      const asset = await analyzeAsset('crypto', id, coin?.name || match?.name || id, timeframe, strategy);
+      const [displayed] = displayCurrency ? await convertAssets([asset], displayCurrency) : [asset];
+      return NextResponse.json({ asset: displayed });
     } else {
-      // Analyze multiple cryptocurrencies
-      const assets: Asset[] = [];
-      
-      for (const coin of CRYPTO_COINS.slice(0, 5)) { // Limit to 5 to avoid rate limits
-        try {
-          const asset = await analyzeCrypto(coin.id, coin.name);
-          assets.push(asset);
-        } catch (error) {
-          console.error(`Error analyzing ${coin.symbol}:`, error);
-          // Continue with other coins
-        }
-      }
-
-      // Sort by overall score
-      assets.sort((a, b) => b.overallScore - a.overallScore);
+      // Analyze the market's list
+      const { assets, regime } = await analyzeCryptoList(timeframe, strategy);
 
-      return NextResponse.json({ assets });
+      return NextResponse.json({
+        assets: displayCurrency ? await convertAssets(assets, displayCurrency) : assets,
+        regime,
+      });
     }
   } catch (error) {
     console.error('Error in crypto API:', error);
@@ -59,51 +63,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-async function analyzeCrypto(coinId: string, name?: string): Promise<Asset> {
-  const [priceData, quote] = await Promise.all([
-    fetchCryptoData(coinId, 365),
-    getCryptoQuote(coinId).catch(() => null),
-  ]);
-
-  // Log data availability for debugging
-  console.log(`Analyzing ${coinId}: ${priceData.length} data points available`);
-  
-  // Minimum requirement reduced to 50 (technical indicators can work with less than 200)
-  if (priceData.length < 50) {
-    throw new Error(`Insufficient data for ${coinId}: got ${priceData.length} points, need at least 50`);
-  }
-
-  const technicalIndicators = calculateTechnicalIndicators(priceData);
-  const momentum = calculateMomentumScore(technicalIndicators, priceData);
-  const trend = analyzeTrend(technicalIndicators, priceData);
-  const fundamentals = analyzeFundamentals(priceData);
-
-  const currentPrice = quote?.price || priceData[priceData.length - 1].close;
-  const priceChange = quote?.change || 0;
-  const priceChangePercent = quote?.changePercent || 0;
-
-  const asset: Asset = {
-    symbol: quote?.symbol || coinId.toUpperCase(),
-    name: name || coinId,
-    type: 'crypto',
-    currentPrice,
-    priceChange,
-    priceChangePercent,
-    priceData: priceData.slice(-100), // Keep last 100 days
-    technicalIndicators,
-    fundamentals,
-    trend,
-    momentum,
-    overallScore: 0, // Will be calculated
-    recommendation: 'hold',
-    confidence: 0, // Will be calculated
-  };
-
-  asset.overallScore = calculateOverallScore(asset);
-  asset.confidence = calculateConfidence(asset);
-  asset.recommendation = getRecommendation(asset.overallScore, asset.confidence);
-
-  return asset;
-}
-
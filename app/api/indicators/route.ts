@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadPriceHistory } from '@/lib/analysis/pipeline';
+import { calculateIndicatorSeries } from '@/lib/analysis/technicalIndicators';
+import { resolveProviderSymbol } from '@/lib/data/symbolIndex';
+import { parseTimeframe } from '@/lib/utils/timeframe';
+import { parseStrategy } from '@/lib/utils/strategy';
+import { parseIndianExchange } from '@/lib/utils/exchanges';
+import { AssetType } from '@/types';
+
+const ASSET_TYPES: AssetType[] = ['us_stock', 'indian_stock', 'crypto'];
+
+// Full indicator series for one asset, aligned with its bars. Values are in
+// the asset's native currency.
+export async function GET(request: NextRequest) {
+  try {
+    const symbol = request.nextUrl.searchParams.get('symbol')?.trim();
+    const type = request.nextUrl.searchParams.get('type') || 'us_stock';
+
+    if (!symbol) {
+      return NextResponse.json({ error: 'Missing symbol: pass ?symbol=' }, { status: 400 });
+    }
+    if (!ASSET_TYPES.includes(type as AssetType)) {
+      return NextResponse.json({ error: `Unknown asset type: ${type}` }, { status: 400 });
+    }
+    const assetType = type as AssetType;
+
+    const timeframeResult = parseTimeframe(
+      request.nextUrl.searchParams.get('interval'),
+      request.nextUrl.searchParams.get('lookback')
+    );
+    if ('error' in timeframeResult) {
+      return NextResponse.json({ error: timeframeResult.error }, { status: 400 });
+    }
+    const { timeframe } = timeframeResult;
+
+    const strategyResult = parseStrategy(
+      request.nextUrl.searchParams.get('strategy'),
+      request.nextUrl.searchParams.get('config')
+    );
+    if ('error' in strategyResult) {
+      return NextResponse.json({ error: strategyResult.error }, { status: 400 });
+    }
+
+    const exchangeParam = request.nextUrl.searchParams.get('exchange');
+    const exchange = parseIndianExchange(exchangeParam);
+    if (exchangeParam && !exchange) {
+      return NextResponse.json({ error: `Unsupported exchange: ${exchangeParam} (use NSE or BSE)` }, { status: 400 });
+    }
+
+    // Resolve names and aliases the same way the asset endpoints do
+    const { symbol: providerSymbol } = await resolveProviderSymbol(symbol, assetType, exchange);
+
+    const history = await loadPriceHistory(assetType, providerSymbol, timeframe);
+    const strategy = strategyResult.strategies[assetType];
+    const series = calculateIndicatorSeries(history.priceData, strategy.indicators);
+
+    return NextResponse.json({
+      symbol: providerSymbol,
+      type: assetType,
+      timeframe,
+      dataSource: history.provider,
+      dataQuality: history.dataQuality,
+      indicators: strategy.indicators,
+      series,
+    });
+  } catch (error) {
+    console.error('Error in indicators API:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: 'Failed to calculate indicator series', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
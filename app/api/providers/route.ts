@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { listProviders } from '@/lib/data/providers';
+import { getRateLimitStatus } from '@/lib/data/rateLimiter';
+
+export async function GET() {
+  try {
+    const rateLimits = await getRateLimitStatus();
+
+    const providers = listProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      available: provider.isAvailable(),
+      capabilities: provider.capabilities,
+      rateLimit: rateLimits.find(status => status.providerId === provider.id) || null,
+    }));
+
+    return NextResponse.json({ providers });
+  } catch (error) {
+    console.error('Error in providers API:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch provider status' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,84 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Asset, Recommendation } from '@/types';
+import { AssetType } from '@/types';
+import { analyzeMarkets } from '@/lib/analysis/marketLists';
+import { convertAssets } from '@/lib/data/fx';
 import { createRecommendation } from '@/lib/utils/scoring';
+import { parseCurrency } from '@/lib/utils/currency';
+import { parseTimeframe } from '@/lib/utils/timeframe';
+import { parseStrategy } from '@/lib/utils/strategy';
+
+const ASSET_TYPES: AssetType[] = ['us_stock', 'indian_stock', 'crypto'];
+const MAX_RECOMMENDATIONS = 20;
 
 export async function GET(request: NextRequest) {
   try {
-    const assetType = request.nextUrl.searchParams.get('type'); // 'us_stock', 'indian_stock', 'crypto', or null for all
-
-    const recommendations: Recommendation[] = [];
-    const allAssets: Asset[] = [];
+    const params = request.nextUrl.searchParams;
+    const assetType = params.get('type'); // 'us_stock', 'indian_stock', 'crypto', or null for all
+    if (assetType && !ASSET_TYPES.includes(assetType as AssetType)) {
+      return NextResponse.json({ error: `Unknown asset type: ${assetType}` }, { status: 400 });
+    }
 
-    // Fetch US stocks
-    if (!assetType || assetType === 'us_stock') {
-      try {
-        const usResponse = await fetch(`${request.nextUrl.origin}/api/stocks/us`);
-        if (usResponse.ok) {
-          const usData = await usResponse.json();
-          if (usData.assets) {
-            allAssets.push(...usData.assets);
-          } else if (usData.asset) {
-            allAssets.push(usData.asset);
-          }
-        }
-      } catch (error) {
-        console.error('Error fetching US stocks:', error);
-      }
+    const currencyParam = params.get('currency');
+    const displayCurrency = parseCurrency(currencyParam);
+    if (currencyParam && !displayCurrency) {
+      return NextResponse.json({ error: `Unsupported currency: ${currencyParam}` }, { status: 400 });
     }
 
-    // Fetch Indian stocks
-    if (!assetType || assetType === 'indian_stock') {
-      try {
-        const indiaResponse = await fetch(`${request.nextUrl.origin}/api/stocks/india`);
-        const indiaData = await indiaResponse.json();
-        
-        if (indiaResponse.ok) {
-          if (indiaData.assets && Array.isArray(indiaData.assets) && indiaData.assets.length > 0) {
-            allAssets.push(...indiaData.assets);
-          } else if (indiaData.asset) {
-            allAssets.push(indiaData.asset);
-          } else {
-            console.warn('Indian stocks API returned empty or invalid data:', indiaData);
-          }
-        } else {
-          console.error(`Indian stocks API returned error status ${indiaResponse.status}:`, indiaData);
-        }
-      } catch (error) {
-        console.error('Error fetching Indian stocks:', error);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error('Error details:', errorMessage);
-      }
+    const timeframeResult = parseTimeframe(params.get('interval'), params.get('lookback'));
+    if ('error' in timeframeResult) {
+      return NextResponse.json({ error: timeframeResult.error }, { status: 400 });
     }
 
-    // Fetch cryptocurrencies
-    if (!assetType || assetType === 'crypto') {
-      try {
-        const cryptoResponse = await fetch(`${request.nextUrl.origin}/api/crypto`);
-        if (cryptoResponse.ok) {
-          const cryptoData = await cryptoResponse.json();
-          if (cryptoData.assets) {
-            allAssets.push(...cryptoData.assets);
-          } else if (cryptoData.asset) {
-            allAssets.push(cryptoData.asset);
-          }
-        }
-      } catch (error) {
-        console.error('Error fetching crypto:', error);
-      }
+    const strategyResult = parseStrategy(params.get('strategy'), params.get('config'));
+    if ('error' in strategyResult) {
+      return NextResponse.json({ error: strategyResult.error }, { status: 400 });
     }
 
-    // Filter by confidence and create recommendations
+    // Each market's list, analyzed in-process; regimes are keyed by asset type
+    const { assets: allAssets, regimes } = await analyzeMarkets(
+      assetType ? [assetType as AssetType] : ASSET_TYPES,
+      timeframeResult.timeframe,
+      strategyResult.strategies
+    );
+
+    // Filter by confidence; analyzeMarkets returns the assets best first
     const filteredAssets = allAssets.filter(asset => asset.confidence >= 0);
-    
-    // Sort by overall score
-    filteredAssets.sort((a, b) => b.overallScore - a.overallScore);
 
     // Create recommendations for top assets
-    const topAssets = filteredAssets.slice(0, 20); // Top 20 recommendations
-    recommendations.push(...topAssets.map(asset => createRecommendation(asset)));
+    const topAssets = filteredAssets.slice(0, MAX_RECOMMENDATIONS);
+    const displayed = displayCurrency ? await convertAssets(topAssets, displayCurrency) : topAssets;
+    const recommendations = displayed.map(asset => createRecommendation(asset));
 
     return NextResponse.json({
       recommendations,
+      regimes,
       total: recommendations.length,
       filtered: filteredAssets.length,
       totalAnalyzed: allAssets.length,
@@ -91,4 +64,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchSymbols } from '@/lib/data/symbolIndex';
+import { AssetType } from '@/types';
+
+const ASSET_TYPES: AssetType[] = ['us_stock', 'indian_stock', 'crypto'];
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q')?.trim();
+    const type = request.nextUrl.searchParams.get('type');
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(request.nextUrl.searchParams.get('limit')) || 10));
+
+    if (!query) {
+      return NextResponse.json({ error: 'Missing search query: pass ?q=' }, { status: 400 });
+    }
+    if (type && !ASSET_TYPES.includes(type as AssetType)) {
+      return NextResponse.json({ error: `Unknown asset type: ${type}` }, { status: 400 });
+    }
+
+    const results = await searchSymbols(query, { assetType: (type as AssetType) || undefined, limit });
+
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    console.error('Error in search API:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: 'Failed to search symbols', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compareIndianListings } from '@/lib/analysis/exchangeComparison';
+import { resolveSymbol } from '@/lib/data/symbolIndex';
+
+export async function GET(request: NextRequest) {
+  try {
+    const symbol = request.nextUrl.searchParams.get('symbol');
+
+    if (!symbol) {
+      return NextResponse.json({ error: 'Missing symbol: pass ?symbol=' }, { status: 400 });
+    }
+
+    const match = await resolveSymbol(symbol, 'indian_stock');
+    const comparison = await compareIndianListings(match?.id ?? symbol);
+
+    return NextResponse.json({ comparison });
+  } catch (error) {
+    console.error('Error in NSE/BSE comparison API:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: 'Failed to compare NSE and BSE prices', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -1,49 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchIndianStockData, getIndianStockQuote } from '@/lib/data/yahooFinance';
-import { calculateTechnicalIndicators } from '@/lib/analysis/technicalIndicators';
-import { calculateMomentumScore } from '@/lib/analysis/momentum';
-import { analyzeTrend } from '@/lib/analysis/trends';
-import { analyzeFundamentals } from '@/lib/analysis/fundamentals';
-import { calculateOverallScore, getRecommendation, calculateConfidence } from '@/lib/utils/scoring';
-import { Asset } from '@/types';
-
-// Popular Indian stocks to analyze
-const INDIAN_STOCKS = [
-  { symbol: 'RELIANCE', name: 'Reliance Industries Ltd' },
-  { symbol: 'TCS', name: 'Tata Consultancy Services' },
-  { symbol: 'HDFCBANK', name: 'HDFC Bank Ltd' },
-  { symbol: 'INFY', name: 'Infosys Ltd' },
-  { symbol: 'HINDUNILVR', name: 'Hindustan Unilever Ltd' },
-  { symbol: 'ICICIBANK', name: 'ICICI Bank Ltd' },
-  { symbol: 'BHARTIARTL', name: 'Bharti Airtel Ltd' },
-  { symbol: 'SBIN', name: 'State Bank of India' },
-  { symbol: 'BAJFINANCE', name: 'Bajaj Finance Ltd' },
-  { symbol: 'LICI', name: 'Life Insurance Corporation of India' },
-];
+import { analyzeIndianStock } from '@/lib/analysis/pipeline';
+import { analyzeIndianStockList } from '@/lib/analysis/marketLists';
+import { convertAssets } from '@/lib/data/fx';
+import { resolveSymbol } from '@/lib/data/symbolIndex';
+import { parseCurrency } from '@/lib/utils/currency';
+import { parseTimeframe } from '@/lib/utils/timeframe';
+import { parseStrategy } from '@/lib/utils/strategy';
+import { fromIndianListing, parseIndianExchange } from '@/lib/utils/exchanges';
 
 export async function GET(request: NextRequest) {
   try {
     const symbol = request.nextUrl.searchParams.get('symbol');
+    const currencyParam = request.nextUrl.searchParams.get('currency');
+    const displayCurrency = parseCurrency(currencyParam);
+
+    if (currencyParam && !displayCurrency) {
+      return NextResponse.json({ error: `Unsupported currency: ${currencyParam}` }, { status: 400 });
+    }
+
+    const timeframeResult = parseTimeframe(
+      request.nextUrl.searchParams.get('interval'),
+      request.nextUrl.searchParams.get('lookback')
+    );
+    if ('error' in timeframeResult) {
+      return NextResponse.json({ error: timeframeResult.error }, { status: 400 });
+    }
+    const { timeframe } = timeframeResult;
+
+    const strategyResult = parseStrategy(
+      request.nextUrl.searchParams.get('strategy'),
+      request.nextUrl.searchParams.get('config')
+    );
+    if ('error' in strategyResult) {
+      return NextResponse.json({ error: strategyResult.error }, { status: 400 });
+    }
+    const strategy = strategyResult.strategies.indian_stock;
+
+    // Without an explicit exchange, NSE is tried first with BSE as the fallback
+    const exchangeParam = request.nextUrl.searchParams.get('exchange');
+    const exchange = parseIndianExchange(exchangeParam);
+
+    if (exchangeParam && !exchange) {
+      return NextResponse.json({ error: `Unsupported exchange: ${exchangeParam} (use NSE or BSE)` }, { status: 400 });
+    }
 
     if (symbol) {
       // Analyze single stock
-      const asset = await analyzeStock(symbol);
-      return NextResponse.json({ asset });
+      // Names, aliases and ISINs resolve through the symbol index; unknown input is tried as a ticker
+      // A suffixed listing (RELIANCE.BO) or a scrip that only resolved on BSE picks its exchange
+      const listing = fromIndianListing(symbol);
+      const suffixExchange = listing.symbol !== symbol ? listing.exchange : undefined;
+      const match = await resolveSymbol(listing.symbol, 'indian_stock');
+      const matchExchange = match?.exchange === 'BSE' ? 'BSE' : undefined;
+      const asset = await analyzeIndianStock(
+        match?.id ?? listing.symbol,
+        match?.name,
+        exchange ?? suffixExchange ?? matchExchange,
+        timeframe,
+        strategy
+      );
+      const [displayed] = displayCurrency ? await convertAssets([asset], displayCurrency) : [asset];
+      return NextResponse.json({ asset: displayed });
     } else {
-      // Analyze multiple stocks
-      const assets: Asset[] = [];
-      
-      for (const stock of INDIAN_STOCKS.slice(0, 5)) { // Limit to 5 to avoid rate limits
-        try {
-          const asset = await analyzeStock(stock.symbol, stock.name);
-          assets.push(asset);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error(`Error analyzing ${stock.symbol}:`, errorMessage);
-          console.error('Full error:', error);
-          // Continue with other stocks
-        }
-      }
+      // Analyze the market's list
+      const { assets, regime } = await analyzeIndianStockList(timeframe, strategy, exchange ?? undefined);
 
       if (assets.length === 0) {
         console.error('No Indian stocks were successfully analyzed. All stocks failed.');
@@ -57,10 +77,10 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      // Sort by overall score
-      assets.sort((a, b) => b.overallScore - a.overallScore);
-
-      return NextResponse.json({ assets });
+      return NextResponse.json({
+        assets: displayCurrency ? await convertAssets(assets, displayCurrency) : assets,
+        regime,
+      });
     }
   } catch (error) {
     console.error('Error in Indian stocks API:', error);
@@ -70,73 +90,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-async function analyzeStock(symbol: string, name?: string): Promise<Asset> {
-  // Fetch historical data first (required)
-  const priceData = await fetchIndianStockData(symbol);
-
-  if (priceData.length < 30) {
-    throw new Error(`Insufficient data for ${symbol}: only ${priceData.length} data points available (minimum 30 required)`);
-  }
-
-  // Try to fetch quote, but don't let it block or fail the entire request
-  let quote = null;
-  try {
-    const quotePromise = getIndianStockQuote(symbol);
-    const timeoutPromise = new Promise<never>((_, reject) => 
-      setTimeout(() => reject(new Error('Quote request timeout')), 5000)
-    );
-    
-    quote = await Promise.race([
-      quotePromise,
-      timeoutPromise,
-    ]) as { symbol: string; price: number; change: number; changePercent: number } | null;
-  } catch (error) {
-    // Silently fail - we'll use historical data instead
-    // Quote failures are common with Yahoo Finance for Indian stocks
-  }
-
-  const technicalIndicators = calculateTechnicalIndicators(priceData);
-  const momentum = calculateMomentumScore(technicalIndicators, priceData);
-  const trend = analyzeTrend(technicalIndicators, priceData);
-  const fundamentals = analyzeFundamentals(priceData);
-
-  // Use quote if available, otherwise calculate from historical data
-  const latestClose = priceData[priceData.length - 1].close;
-  const previousClose = priceData.length > 1 ? priceData[priceData.length - 2].close : latestClose;
-  
-  const currentPrice = quote?.price || latestClose;
-  
-  // Calculate price change from historical data if quote is not available
-  let priceChange = quote?.change ?? 0;
-  let priceChangePercent = quote?.changePercent ?? 0;
-  
-  if (!quote && priceData.length > 1) {
-    priceChange = currentPrice - previousClose;
-    priceChangePercent = previousClose > 0 ? (priceChange / previousClose) * 100 : 0;
-  }
-
-  const asset: Asset = {
-    symbol: quote?.symbol || symbol,
-    name: name || symbol,
-    type: 'indian_stock',
-    currentPrice,
-    priceChange,
-    priceChangePercent,
-    priceData: priceData.slice(-100), // Keep last 100 days
-    technicalIndicators,
-    fundamentals,
-    trend,
-    momentum,
-    overallScore: 0, // Will be calculated
-    recommendation: 'hold',
-    confidence: 0, // Will be calculated
-  };
-
-  asset.overallScore = calculateOverallScore(asset);
-  asset.confidence = calculateConfidence(asset);
-  asset.recommendation = getRecommendation(asset.overallScore, asset.confidence);
-
-  return asset;
-}
-
@@ -5,24 +5,30 @@ import { Recommendation, AssetType } from '@/types';
 import RecommendationCard from '@/components/RecommendationCard';
 import AssetTypeTabs from '@/components/AssetTypeTabs';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import CorrelationHeatmap from '@/components/CorrelationHeatmap';
 import ThemeToggle from '@/components/ThemeToggle';
+import { DEFAULT_DISPLAY_CURRENCY, SUPPORTED_CURRENCIES } from '@/lib/utils/currency';
 
 export default function Home() {
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedType, setSelectedType] = useState<AssetType | 'all'>('all');
+  const [currency, setCurrency] = useState<string>(DEFAULT_DISPLAY_CURRENCY);
 
   useEffect(() => {
     fetchRecommendations();
-  }, [selectedType]);
+  }, [selectedType, currency]);
 
   const fetchRecommendations = async () => {
     setLoading(true);
     setError(null);
     try {
-      const typeParam = selectedType === 'all' ? '' : `?type=${selectedType}`;
-      const response = await fetch(`/api/recommendations${typeParam}`);
+      const params = new URLSearchParams({ currency });
+      if (selectedType !== 'all') {
+        params.set('type', selectedType);
+      }
+      const response = await fetch(`/api/recommendations?${params.toString()}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch recommendations');
@@ -55,7 +61,21 @@ export default function Home() {
           </p>
         </div>
 
-        <AssetTypeTabs selectedType={selectedType} onTypeChange={setSelectedType} />
+        <div className="flex justify-between items-start">
+          <AssetTypeTabs selectedType={selectedType} onTypeChange={setSelectedType} />
+          <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+            <span>Currency</span>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {SUPPORTED_CURRENCIES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </label>
+        </div>
 
         {loading ? (
           <LoadingSpinner />
@@ -83,6 +103,13 @@ export default function Home() {
                 <RecommendationCard key={`${recommendation.asset.symbol}-${index}`} recommendation={recommendation} />
               ))}
             </div>
+            {filteredRecommendations.length > 1 && (
+              <CorrelationHeatmap
+                key={selectedType}
+                selectedType={selectedType}
+                top={filteredRecommendations.length}
+              />
+            )}
           </>
         )}
 
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { AssetType, CorrelationReport } from '@/types';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+interface CorrelationHeatmapProps {
+  selectedType: AssetType | 'all';
+  top: number; // number of recommendations to correlate
+}
+
+type Method = 'pearson' | 'spearman';
+
+export default function CorrelationHeatmap({ selectedType, top }: CorrelationHeatmapProps) {
+  const [report, setReport] = useState<CorrelationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [windowIndex, setWindowIndex] = useState(0);
+  const [method, setMethod] = useState<Method>('pearson');
+
+  // Correlating the recommendations re-runs the analysis, so it loads on demand
+  const fetchCorrelations = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ top: String(Math.max(2, top)) });
+      if (selectedType !== 'all') {
+        params.set('type', selectedType);
+      }
+      const response = await fetch(`/api/correlations?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch correlations');
+      }
+      setReport(await response.json());
+      setWindowIndex(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      console.error('Error fetching correlations:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Positive correlation (concentration) in red, negative (diversification) in blue
+  const getCellStyle = (value: number | null) => {
+    if (value === null) {
+      return {};
+    }
+    const alpha = Math.min(1, Math.abs(value)) * 0.8;
+    return { backgroundColor: value >= 0 ? `rgba(220, 38, 38, ${alpha})` : `rgba(37, 99, 235, ${alpha})` };
+  };
+
+  const matrix = report?.matrices[windowIndex];
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900/50 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Correlations</h2>
+        <div className="flex items-center space-x-2 text-sm">
+          {report && (
+            <>
+              <select
+                value={windowIndex}
+                onChange={(e) => setWindowIndex(Number(e.target.value))}
+                className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {report.matrices.map((m, index) => (
+                  <option key={m.window} value={index}>Last {m.window} bars</option>
+                ))}
+              </select>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as Method)}
+                className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                <option value="pearson">Pearson</option>
+                <option value="spearman">Spearman</option>
+              </select>
+            </>
+          )}
+          <button
+            onClick={fetchCorrelations}
+            disabled={loading}
+            className="px-3 py-1 bg-blue-600 dark:bg-blue-700 text-white rounded hover:bg-blue-700 dark:hover:bg-blue-800 disabled:opacity-50"
+          >
+            {report ? 'Refresh' : 'Show correlations'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : error ? (
+        <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+      ) : report && matrix ? (
+        report.assets.length < 2 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Not enough assets to correlate.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th></th>
+                  {report.assets.map(asset => (
+                    <th key={`${asset.type}-${asset.symbol}`} className="px-2 py-1 font-semibold text-gray-700 dark:text-gray-300">
+                      {asset.symbol}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.assets.map((asset, row) => (
+                  <tr key={`${asset.type}-${asset.symbol}`}>
+                    <th className="px-2 py-1 text-left font-semibold text-gray-700 dark:text-gray-300" title={asset.name}>
+                      {asset.symbol}
+                    </th>
+                    {matrix[method][row].map((value, column) => (
+                      <td
+                        key={column}
+                        style={getCellStyle(value)}
+                        title={`${matrix.observations[row][column]} shared returns`}
+                        className="w-12 h-8 text-center text-gray-900 dark:text-white border border-gray-100 dark:border-gray-700"
+                      >
+                        {value === null ? '–' : value.toFixed(2)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          How closely the recommended assets move together, from their bar returns on shared dates.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { Recommendation } from '@/types';
+import { formatPrice } from '@/lib/utils/currency';
+import { getRiskLevel } from '@/lib/analysis/risk';
 
 interface RecommendationCardProps {
   recommendation: Recommendation;
@@ -8,6 +10,7 @@ interface RecommendationCardProps {
 
 export default function RecommendationCard({ recommendation }: RecommendationCardProps) {
   const { asset, reasoning, keyMetrics } = recommendation;
+  const appliedActions = (asset.corporateActions || []).filter(action => action.applied);
 
   const getRecommendationColor = (rec: string) => {
     switch (rec) {
@@ -37,6 +40,19 @@ export default function RecommendationCard({ recommendation }: RecommendationCar
     return 'text-red-600 dark:text-red-400';
   };
 
+  const getRiskColor = (volatility: number) => {
+    switch (getRiskLevel(volatility)) {
+      case 'low':
+        return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200';
+      case 'moderate':
+        return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200';
+      case 'high':
+        return 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200';
+      default:
+        return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200';
+    }
+  };
+
   const getAssetTypeLabel = (type: string) => {
     switch (type) {
       case 'us_stock':
@@ -55,7 +71,13 @@ export default function RecommendationCard({ recommendation }: RecommendationCar
       <div className="flex justify-between items-start mb-4">
         <div>
           <h3 className="text-xl font-bold text-gray-900 dark:text-white">{asset.name}</h3>
-          <p className="text-sm text-gray-500 dark:text-gray-400">{asset.symbol} • {getAssetTypeLabel(asset.type)}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{asset.symbol}{asset.exchange ? ` (${asset.exchange})` : ''} • {getAssetTypeLabel(asset.type)}</p>
+          {asset.marketSession && asset.type !== 'crypto' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span className={`inline-block w-2 h-2 rounded-full mr-1 ${asset.marketSession.isMarketOpen ? 'bg-green-500' : 'bg-gray-400'}`}></span>
+              {asset.marketSession.exchange} {asset.marketSession.isMarketOpen ? 'open' : `closed • last session ${asset.marketSession.lastSessionDate}`}
+            </p>
+          )}
         </div>
         <div className={`px-3 py-1 rounded-full text-xs font-semibold border ${getRecommendationColor(asset.recommendation)}`}>
           {getRecommendationLabel(asset.recommendation)}
@@ -65,7 +87,12 @@ export default function RecommendationCard({ recommendation }: RecommendationCar
       <div className="mb-4">
         <div className="flex items-center space-x-4">
           <div>
-            <p className="text-2xl font-bold text-gray-900 dark:text-white">${asset.currentPrice.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatPrice(asset.currentPrice, asset.currency)}</p>
+            {asset.currency !== asset.nativeCurrency && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {formatPrice(asset.currentPrice / asset.fxRate, asset.nativeCurrency)} native
+              </p>
+            )}
             <p className={`text-sm ${asset.priceChangePercent >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
               {asset.priceChangePercent >= 0 ? '+' : ''}{asset.priceChangePercent.toFixed(2)}%
             </p>
@@ -91,6 +118,20 @@ export default function RecommendationCard({ recommendation }: RecommendationCar
         </div>
       </div>
 
+      {asset.risk && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+          <span className={`px-2 py-0.5 rounded font-semibold ${getRiskColor(asset.risk.volatility)}`}>
+            {getRecommendationLabel(getRiskLevel(asset.risk.volatility))} risk
+          </span>
+          <span className="text-gray-600 dark:text-gray-400">
+            Vol {asset.risk.volatility.toFixed(0)}%
+            {asset.risk.beta !== null && ` • Beta ${asset.risk.beta.toFixed(2)}`}
+            {` • Max DD -${asset.risk.maxDrawdown.toFixed(0)}%`}
+            {asset.risk.sharpeRatio !== null && ` • Sharpe ${asset.risk.sharpeRatio.toFixed(2)}`}
+          </span>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-2 mb-4">
         {keyMetrics.slice(0, 4).map((metric, index) => (
           <div key={index} className="bg-gray-50 dark:bg-gray-700/50 p-2 rounded">
@@ -112,6 +153,19 @@ export default function RecommendationCard({ recommendation }: RecommendationCar
         </ul>
       </div>
 
+      {appliedActions.length > 0 && (
+        <div className="mt-4 pt-4 border-t dark:border-gray-700">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Adjusted for{' '}
+            {appliedActions.map(action =>
+              action.type === 'split'
+                ? `${action.ratio}:1 split (${action.date})`
+                : `${action.amount?.toFixed(2)} dividend (${action.date})`
+            ).join(', ')}
+          </p>
+        </div>
+      )}
+
       <div className="mt-4 pt-4 border-t dark:border-gray-700">
         <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
           <span>Confidence: {asset.confidence.toFixed(1)}%</span>
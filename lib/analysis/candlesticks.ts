@@ -0,0 +1,176 @@
+import { CandlestickPattern, CandlestickPatternName, PriceData, StrategyConfig } from '@/types';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+// Body and shadow proportions, as fractions of the bar's high-low range
+const DOJI_BODY = 0.1;
+const LONG_BODY = 0.5;
+const STAR_BODY = 0.3; // star body relative to the first bar's body
+const HAMMER_MAX_BODY = 0.35;
+
+export const CANDLESTICK_LABELS: Record<CandlestickPatternName, string> = {
+  bullish_engulfing: 'Bullish engulfing',
+  bearish_engulfing: 'Bearish engulfing',
+  hammer: 'Hammer',
+  hanging_man: 'Hanging man',
+  doji: 'Doji',
+  morning_star: 'Morning star',
+  evening_star: 'Evening star',
+  three_white_soldiers: 'Three white soldiers',
+  three_black_crows: 'Three black crows',
+  bullish_harami: 'Bullish harami',
+  bearish_harami: 'Bearish harami',
+};
+
+const BIAS: Record<CandlestickPatternName, CandlestickPattern['bias']> = {
+  bullish_engulfing: 'bullish',
+  bearish_engulfing: 'bearish',
+  hammer: 'bullish',
+  hanging_man: 'bearish',
+  doji: 'neutral',
+  morning_star: 'bullish',
+  evening_star: 'bearish',
+  three_white_soldiers: 'bullish',
+  three_black_crows: 'bearish',
+  bullish_harami: 'bullish',
+  bearish_harami: 'bearish',
+};
+
+function body(bar: PriceData): number {
+  return Math.abs(bar.close - bar.open);
+}
+
+function range(bar: PriceData): number {
+  return bar.high - bar.low;
+}
+
+function isBullish(bar: PriceData): boolean {
+  return bar.close > bar.open;
+}
+
+function isBearish(bar: PriceData): boolean {
+  return bar.close < bar.open;
+}
+
+function isLongBody(bar: PriceData): boolean {
+  return range(bar) > 0 && body(bar) >= LONG_BODY * range(bar);
+}
+
+function isDoji(bar: PriceData): boolean {
+  return range(bar) > 0 && body(bar) <= DOJI_BODY * range(bar);
+}
+
+// Small body at the top of the range with a lower shadow at least twice the body
+function isHammerShape(bar: PriceData): boolean {
+  const barBody = body(bar);
+  const upperShadow = bar.high - Math.max(bar.open, bar.close);
+  const lowerShadow = Math.min(bar.open, bar.close) - bar.low;
+  return !isDoji(bar) &&
+    barBody <= HAMMER_MAX_BODY * range(bar) &&
+    lowerShadow >= 2 * barBody &&
+    upperShadow <= barBody;
+}
+
+// Patterns completing at bar `i`, each with the number of bars it spans
+function matchPatterns(bars: PriceData[], i: number, trendBars: number): [CandlestickPatternName, number][] {
+  const matches: [CandlestickPatternName, number][] = [];
+  const bar = bars[i];
+  const prev = bars[i - 1];
+  const first = bars[i - 2];
+
+  if (isDoji(bar)) {
+    matches.push(['doji', 1]);
+  }
+
+  // Hammer and hanging man share a shape; the move into the bar decides which it is
+  if (isHammerShape(bar) && i > trendBars) {
+    const move = bars[i - 1].close - bars[i - 1 - trendBars].close;
+    if (move < 0) {
+      matches.push(['hammer', 1]);
+    } else if (move > 0) {
+      matches.push(['hanging_man', 1]);
+    }
+  }
+
+  if (prev) {
+    if (isBearish(prev) && isBullish(bar) && bar.open <= prev.close && bar.close >= prev.open && body(bar) > body(prev)) {
+      matches.push(['bullish_engulfing', 2]);
+    }
+    if (isBullish(prev) && isBearish(bar) && bar.open >= prev.close && bar.close <= prev.open && body(bar) > body(prev)) {
+      matches.push(['bearish_engulfing', 2]);
+    }
+
+    // A small body inside the previous long body
+    const insidePrev = Math.max(bar.open, bar.close) <= Math.max(prev.open, prev.close) &&
+      Math.min(bar.open, bar.close) >= Math.min(prev.open, prev.close) &&
+      body(bar) < 0.5 * body(prev);
+    if (insidePrev && isLongBody(prev) && isBearish(prev) && isBullish(bar)) {
+      matches.push(['bullish_harami', 2]);
+    }
+    if (insidePrev && isLongBody(prev) && isBullish(prev) && isBearish(bar)) {
+      matches.push(['bearish_harami', 2]);
+    }
+  }
+
+  if (first && prev) {
+    // Long bar, small star beyond its close, then a bar closing past the first body's midpoint
+    const firstMid = (first.open + first.close) / 2;
+    const smallStar = body(prev) <= STAR_BODY * body(first);
+    if (isLongBody(first) && isBearish(first) && smallStar &&
+      Math.min(prev.open, prev.close) < first.close && isBullish(bar) && bar.close > firstMid) {
+      matches.push(['morning_star', 3]);
+    }
+    if (isLongBody(first) && isBullish(first) && smallStar &&
+      Math.max(prev.open, prev.close) > first.close && isBearish(bar) && bar.close < firstMid) {
+      matches.push(['evening_star', 3]);
+    }
+
+    // Three long bodies in a row, each opening inside the previous body and closing beyond it
+    const trio = [first, prev, bar];
+    const opensInside = (a: PriceData, b: PriceData) =>
+      b.open >= Math.min(a.open, a.close) && b.open <= Math.max(a.open, a.close);
+    if (trio.every(candle => isBullish(candle) && isLongBody(candle)) &&
+      opensInside(first, prev) && opensInside(prev, bar) &&
+      prev.close > first.close && bar.close > prev.close) {
+      matches.push(['three_white_soldiers', 3]);
+    }
+    if (trio.every(candle => isBearish(candle) && isLongBody(candle)) &&
+      opensInside(first, prev) && opensInside(prev, bar) &&
+      prev.close < first.close && bar.close < prev.close) {
+      matches.push(['three_black_crows', 3]);
+    }
+  }
+
+  return matches;
+}
+
+// Scans the last `lookbackBars` bars for patterns that complete there.
+// Newest first; an older match overlapping a newer one of the same pattern
+// (a run of crows, say) is dropped.
+export function detectCandlestickPatterns(
+  priceData: PriceData[],
+  config: StrategyConfig['candlesticks'] = DEFAULT_STRATEGY.candlesticks
+): CandlestickPattern[] {
+  const patterns: CandlestickPattern[] = [];
+  const lastIndex = priceData.length - 1;
+  const newestStart = new Map<CandlestickPatternName, number>();
+
+  for (let i = lastIndex; i >= Math.max(0, priceData.length - config.lookbackBars); i--) {
+    matchPatterns(priceData, i, config.trendBars).forEach(([pattern, span]) => {
+      const start = Math.max(0, i - span + 1);
+      const newerStart = newestStart.get(pattern);
+      if (newerStart !== undefined && i >= newerStart) {
+        return;
+      }
+      newestStart.set(pattern, start);
+      patterns.push({
+        pattern,
+        bias: BIAS[pattern],
+        startDate: priceData[start].date,
+        date: priceData[i].date,
+        barsAgo: lastIndex - i,
+      });
+    });
+  }
+
+  return patterns;
+}
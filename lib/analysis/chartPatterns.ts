@@ -0,0 +1,367 @@
+import { ChartPattern, ChartPatternName, Pivot, PriceData, StrategyConfig } from '@/types';
+import { findSwingPivots } from '@/lib/analysis/pivots';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+type ChartPatternConfig = StrategyConfig['chartPatterns'];
+// +1 for patterns at a top (they break down), -1 for patterns at a bottom (they break up)
+type Side = 1 | -1;
+
+const MIN_FLAG_BARS = 3;
+const MAX_FLAG_RETRACEMENT = 0.5; // of the pole
+
+export const CHART_PATTERN_LABELS: Record<ChartPatternName, string> = {
+  double_top: 'Double top',
+  double_bottom: 'Double bottom',
+  triple_top: 'Triple top',
+  triple_bottom: 'Triple bottom',
+  head_and_shoulders: 'Head and shoulders',
+  inverse_head_and_shoulders: 'Inverse head and shoulders',
+  ascending_triangle: 'Ascending triangle',
+  descending_triangle: 'Descending triangle',
+  symmetric_triangle: 'Symmetric triangle',
+  bull_flag: 'Bull flag',
+  bear_flag: 'Bear flag',
+  pennant: 'Pennant',
+};
+
+// Patterns that mark the end of a trend rather than a pause in it
+export const REVERSAL_PATTERNS: ChartPatternName[] = [
+  'double_top',
+  'double_bottom',
+  'triple_top',
+  'triple_bottom',
+  'head_and_shoulders',
+  'inverse_head_and_shoulders',
+];
+
+interface Line {
+  at: (index: number) => number;
+}
+
+function lineThrough(a: { index: number; price: number }, b: { index: number; price: number }): Line {
+  const slope = (b.price - a.price) / (b.index - a.index);
+  return { at: index => a.price + slope * (index - a.index) };
+}
+
+// Least-squares fit of values against their bar index
+function fitLine(values: number[], firstIndex: number): Line & { slope: number } {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, i) => {
+    covariance += (i - meanX) * (value - meanY);
+    variance += (i - meanX) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  return { slope, at: index => meanY + slope * (index - firstIndex - meanX) };
+}
+
+// Alternating highs and lows: consecutive swing points of the same type
+// collapse into the most extreme one
+function toZigzag(pivots: Pivot[]): Pivot[] {
+  const zigzag: Pivot[] = [];
+  pivots.forEach(pivot => {
+    const last = zigzag[zigzag.length - 1];
+    if (!last || last.type !== pivot.type) {
+      zigzag.push(pivot);
+    } else if (pivot.type === 'high' ? pivot.price > last.price : pivot.price < last.price) {
+      zigzag[zigzag.length - 1] = pivot;
+    }
+  });
+  return zigzag;
+}
+
+// Walks the closes after `from`: crossing the breakout line confirms the
+// pattern, crossing the invalidation level first fails it
+function resolveStatus(
+  priceData: PriceData[],
+  from: number,
+  side: Side,
+  breakout: (index: number) => number,
+  invalidation: (index: number) => number
+): Pick<ChartPattern, 'status' | 'breakoutDate'> {
+  for (let i = from + 1; i < priceData.length; i++) {
+    const close = priceData[i].close;
+    if (side * (close - breakout(i)) < 0) {
+      return { status: 'confirmed', breakoutDate: priceData[i].date };
+    }
+    if (side * (close - invalidation(i)) > 0) {
+      return { status: 'failed', breakoutDate: priceData[i].date };
+    }
+  }
+  return { status: 'forming' };
+}
+
+// Double and triple tops/bottoms: `count` peaks within tolerance of each
+// other, separated by troughs at least twice the tolerance deep. The neckline
+// is the shallowest trough.
+function findEqualPeaks(
+  zigzag: Pivot[],
+  priceData: PriceData[],
+  config: ChartPatternConfig,
+  side: Side,
+  count: 2 | 3
+): ChartPattern | null {
+  const peakType = side === 1 ? 'high' : 'low';
+  const names: Record<2 | 3, [ChartPatternName, ChartPatternName]> = {
+    2: ['double_top', 'double_bottom'],
+    3: ['triple_top', 'triple_bottom'],
+  };
+
+  for (let j = zigzag.length - 1; j >= 2 * (count - 1); j--) {
+    if (zigzag[j].type !== peakType) {
+      continue;
+    }
+    const points = zigzag.slice(j - 2 * (count - 1), j + 1);
+    const peaks = points.filter(point => point.type === peakType).map(point => point.price);
+    const troughs = points.filter(point => point.type !== peakType).map(point => point.price);
+    const averagePeak = peaks.reduce((sum, price) => sum + price, 0) / peaks.length;
+    if ((Math.max(...peaks) - Math.min(...peaks)) / averagePeak > config.tolerance) {
+      continue;
+    }
+
+    const neckline = side === 1 ? Math.min(...troughs) : Math.max(...troughs);
+    const height = Math.abs(averagePeak - neckline);
+    if (height / averagePeak < 2 * config.tolerance) {
+      continue;
+    }
+
+    const extreme = side === 1 ? Math.max(...peaks) : Math.min(...peaks);
+    return {
+      pattern: names[count][side === 1 ? 0 : 1],
+      bias: side === 1 ? 'bearish' : 'bullish',
+      keyPoints: points,
+      breakoutLevel: neckline,
+      target: neckline - side * height,
+      ...resolveStatus(priceData, zigzag[j].index, side, () => neckline, () => extreme * (1 + side * config.tolerance)),
+      startDate: points[0].date,
+      endDate: zigzag[j].date,
+    };
+  }
+  return null;
+}
+
+// Head clearly beyond two shoulders of similar height, with a neckline
+// (possibly sloped) through the two troughs between them
+function findHeadAndShoulders(
+  zigzag: Pivot[],
+  priceData: PriceData[],
+  config: ChartPatternConfig,
+  side: Side
+): ChartPattern | null {
+  const peakType = side === 1 ? 'high' : 'low';
+  const lastIndex = priceData.length - 1;
+
+  for (let j = zigzag.length - 1; j >= 4; j--) {
+    if (zigzag[j].type !== peakType) {
+      continue;
+    }
+    const [leftShoulder, firstTrough, head, secondTrough, rightShoulder] = zigzag.slice(j - 4, j + 1);
+    const headClear = side * (head.price - leftShoulder.price) > config.tolerance * head.price &&
+      side * (head.price - rightShoulder.price) > config.tolerance * head.price;
+    const shouldersLevel = Math.abs(leftShoulder.price - rightShoulder.price) /
+      ((leftShoulder.price + rightShoulder.price) / 2) <= 2 * config.tolerance;
+    if (!headClear || !shouldersLevel) {
+      continue;
+    }
+
+    const neckline = lineThrough(firstTrough, secondTrough);
+    const height = Math.abs(head.price - neckline.at(head.index));
+    const breakoutLevel = neckline.at(lastIndex);
+    return {
+      pattern: side === 1 ? 'head_and_shoulders' : 'inverse_head_and_shoulders',
+      bias: side === 1 ? 'bearish' : 'bullish',
+      keyPoints: [leftShoulder, firstTrough, head, secondTrough, rightShoulder],
+      breakoutLevel,
+      target: breakoutLevel - side * height,
+      ...resolveStatus(priceData, rightShoulder.index, side, neckline.at, () => head.price),
+      startDate: leftShoulder.date,
+      endDate: rightShoulder.date,
+    };
+  }
+  return null;
+}
+
+// Triangles from the latest two swing highs and two swing lows. A side moving
+// less than the tolerance over the pattern counts as flat.
+function findTriangle(zigzag: Pivot[], priceData: PriceData[], config: ChartPatternConfig): ChartPattern | null {
+  if (zigzag.length < 4) {
+    return null;
+  }
+  const points = zigzag.slice(-4);
+  const [firstHigh, secondHigh] = points.filter(point => point.type === 'high');
+  const [firstLow, secondLow] = points.filter(point => point.type === 'low');
+  const upper = lineThrough(firstHigh, secondHigh);
+  const lower = lineThrough(firstLow, secondLow);
+  const start = points[0].index;
+  const end = points[3].index;
+  const lastIndex = priceData.length - 1;
+
+  const trend = (a: Pivot, b: Pivot) => {
+    const change = (b.price - a.price) / a.price;
+    return Math.abs(change) <= config.tolerance ? 'flat' : change > 0 ? 'rising' : 'falling';
+  };
+  const upperTrend = trend(firstHigh, secondHigh);
+  const lowerTrend = trend(firstLow, secondLow);
+
+  let pattern: ChartPatternName;
+  if (upperTrend === 'flat' && lowerTrend === 'rising') {
+    pattern = 'ascending_triangle';
+  } else if (upperTrend === 'falling' && lowerTrend === 'flat') {
+    pattern = 'descending_triangle';
+  } else if (upperTrend === 'falling' && lowerTrend === 'rising') {
+    pattern = 'symmetric_triangle';
+  } else {
+    return null;
+  }
+  if (upper.at(end) <= lower.at(end)) {
+    return null;
+  }
+
+  const height = upper.at(start) - lower.at(start);
+  const common = { pattern, keyPoints: points, startDate: points[0].date, endDate: points[3].date };
+
+  if (pattern === 'symmetric_triangle') {
+    // Either side can break; the first close outside the lines decides the bias
+    for (let i = end + 1; i <= lastIndex; i++) {
+      const close = priceData[i].close;
+      if (close > upper.at(i) || close < lower.at(i)) {
+        const bullish = close > upper.at(i);
+        const breakoutLevel = bullish ? upper.at(lastIndex) : lower.at(lastIndex);
+        return {
+          ...common,
+          bias: bullish ? 'bullish' : 'bearish',
+          breakoutLevel,
+          target: breakoutLevel + (bullish ? height : -height),
+          status: 'confirmed',
+          breakoutDate: priceData[i].date,
+        };
+      }
+    }
+    return { ...common, bias: 'neutral', breakoutLevel: upper.at(lastIndex), target: upper.at(lastIndex) + height, status: 'forming' };
+  }
+
+  const side: Side = pattern === 'ascending_triangle' ? -1 : 1;
+  const breakoutLine = side === -1 ? upper : lower;
+  const invalidationLine = side === -1 ? lower : upper;
+  const breakoutLevel = breakoutLine.at(lastIndex);
+  return {
+    ...common,
+    bias: side === -1 ? 'bullish' : 'bearish',
+    breakoutLevel,
+    target: breakoutLevel - side * height,
+    ...resolveStatus(priceData, end, side, breakoutLine.at, invalidationLine.at),
+  };
+}
+
+// Flags and pennants: a sharp pole followed by a short, shallow consolidation.
+// A flag drifts against the pole; a pennant's highs fall while its lows rise.
+function findFlag(priceData: PriceData[], config: ChartPatternConfig, side: Side): ChartPattern | null {
+  const lastIndex = priceData.length - 1;
+  const extremeOf = (bar: PriceData) => (side === -1 ? bar.high : bar.low);
+  const baseOf = (bar: PriceData) => (side === -1 ? bar.low : bar.high);
+
+  // The pole ends at the most extreme bar of the recent stretch
+  let poleEnd = Math.max(0, lastIndex - config.flagMaxBars);
+  for (let i = poleEnd + 1; i <= lastIndex; i++) {
+    if (-side * (extremeOf(priceData[i]) - extremeOf(priceData[poleEnd])) > 0) {
+      poleEnd = i;
+    }
+  }
+  const flagBars = lastIndex - poleEnd;
+  if (flagBars < MIN_FLAG_BARS || poleEnd < config.poleBars) {
+    return null;
+  }
+
+  let poleStart = poleEnd - config.poleBars;
+  for (let i = poleStart + 1; i < poleEnd; i++) {
+    if (side * (baseOf(priceData[i]) - baseOf(priceData[poleStart])) > 0) {
+      poleStart = i;
+    }
+  }
+  const poleTop = extremeOf(priceData[poleEnd]);
+  const poleBottom = baseOf(priceData[poleStart]);
+  const poleHeight = Math.abs(poleTop - poleBottom);
+  if (poleHeight / poleBottom < config.poleMinMove) {
+    return null;
+  }
+
+  const consolidation = priceData.slice(poleEnd + 1);
+  const deepest = side === -1
+    ? Math.min(...consolidation.map(bar => bar.low))
+    : Math.max(...consolidation.map(bar => bar.high));
+  if (Math.abs(poleTop - deepest) / poleHeight > MAX_FLAG_RETRACEMENT) {
+    return null;
+  }
+
+  const highs = fitLine(consolidation.map(bar => bar.high), poleEnd + 1);
+  const lows = fitLine(consolidation.map(bar => bar.low), poleEnd + 1);
+  // Slopes as a share of price over the whole consolidation
+  const highDrift = (highs.slope * flagBars) / poleTop;
+  const lowDrift = (lows.slope * flagBars) / poleTop;
+
+  let pattern: ChartPatternName;
+  if (highDrift < 0 && lowDrift > 0) {
+    pattern = 'pennant';
+  } else if (side === -1 && highDrift <= config.tolerance / 2 && lowDrift <= config.tolerance / 2) {
+    pattern = 'bull_flag';
+  } else if (side === 1 && highDrift >= -config.tolerance / 2 && lowDrift >= -config.tolerance / 2) {
+    pattern = 'bear_flag';
+  } else {
+    return null;
+  }
+
+  const breakoutLine = side === -1 ? highs : lows;
+  const invalidationLine = side === -1 ? lows : highs;
+  const breakoutLevel = breakoutLine.at(lastIndex);
+  const lastClose = priceData[lastIndex].close;
+  const status: ChartPattern['status'] = side * (lastClose - breakoutLevel) < 0
+    ? 'confirmed'
+    : side * (lastClose - invalidationLine.at(lastIndex)) > 0 ? 'failed' : 'forming';
+
+  return {
+    pattern,
+    bias: side === -1 ? 'bullish' : 'bearish',
+    keyPoints: [
+      { index: poleStart, date: priceData[poleStart].date, price: poleBottom, type: side === -1 ? 'low' : 'high' },
+      { index: poleEnd, date: priceData[poleEnd].date, price: poleTop, type: side === -1 ? 'high' : 'low' },
+    ],
+    breakoutLevel,
+    target: breakoutLevel - side * poleHeight,
+    status,
+    breakoutDate: status === 'forming' ? undefined : priceData[lastIndex].date,
+    startDate: priceData[poleStart].date,
+    endDate: priceData[poleEnd].date,
+  };
+}
+
+// The most recent occurrence of each chart pattern within the window, newest
+// first. A double top that is the tail of a triple top is not reported twice.
+export function detectChartPatterns(
+  priceData: PriceData[],
+  config: ChartPatternConfig = DEFAULT_STRATEGY.chartPatterns
+): ChartPattern[] {
+  const windowStart = Math.max(0, priceData.length - config.window);
+  const zigzag = toZigzag(findSwingPivots(priceData, config.pivotBars).filter(pivot => pivot.index >= windowStart));
+
+  const candidates = [
+    findEqualPeaks(zigzag, priceData, config, 1, 3),
+    findEqualPeaks(zigzag, priceData, config, -1, 3),
+    findEqualPeaks(zigzag, priceData, config, 1, 2),
+    findEqualPeaks(zigzag, priceData, config, -1, 2),
+    findHeadAndShoulders(zigzag, priceData, config, 1),
+    findHeadAndShoulders(zigzag, priceData, config, -1),
+    findTriangle(zigzag, priceData, config),
+    findFlag(priceData, config, -1),
+    findFlag(priceData, config, 1),
+  ].filter((pattern): pattern is ChartPattern => pattern !== null);
+
+  return candidates
+    .filter(pattern => !(
+      (pattern.pattern === 'double_top' || pattern.pattern === 'double_bottom') &&
+      candidates.some(other => other.pattern === pattern.pattern.replace('double', 'triple') && other.endDate === pattern.endDate)
+    ))
+    .sort((a, b) => (a.endDate < b.endDate ? 1 : a.endDate > b.endDate ? -1 : 0));
+}
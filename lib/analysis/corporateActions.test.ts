@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { applyCorporateActions } from '@/lib/analysis/corporateActions';
+import { PriceData } from '@/types';
+
+function bar(date: string, close: number, volume = 1000): PriceData {
+  return { date, open: close, high: close, low: close, close, volume };
+}
+
+describe('applyCorporateActions', () => {
+  it('back-adjusts prices and volumes for a split the raw bars show', () => {
+    const bars = [bar('2024-01-02', 100), bar('2024-01-03', 102), bar('2024-01-04', 51), bar('2024-01-05', 52)];
+    const { priceData, actions } = applyCorporateActions(bars, [{ date: '2024-01-04', type: 'split', ratio: 2 }]);
+
+    expect(actions).toEqual([{ date: '2024-01-04', type: 'split', ratio: 2, applied: true }]);
+    expect(priceData.map(d => d.close)).toEqual([50, 51, 51, 52]);
+    expect(priceData.map(d => d.volume)).toEqual([2000, 2000, 1000, 1000]);
+  });
+
+  it('skips a split the provider already adjusted for', () => {
+    const bars = [bar('2024-01-02', 50), bar('2024-01-03', 51), bar('2024-01-04', 51), bar('2024-01-05', 52)];
+    const { priceData, actions } = applyCorporateActions(bars, [{ date: '2024-01-04', type: 'split', ratio: 2 }]);
+
+    expect(actions[0].applied).toBe(false);
+    expect(priceData).toEqual(bars);
+  });
+
+  it('scales bars before a dividend by one minus its yield on the previous close', () => {
+    const bars = [bar('2024-01-02', 100), bar('2024-01-03', 100), bar('2024-01-04', 98)];
+    const { priceData, actions } = applyCorporateActions(bars, [{ date: '2024-01-04', type: 'dividend', amount: 2 }]);
+
+    expect(actions[0].applied).toBe(true);
+    expect(priceData[0].close).toBeCloseTo(98);
+    expect(priceData[1].close).toBeCloseTo(98);
+    expect(priceData[2].close).toBe(98);
+    expect(priceData[0].volume).toBe(1000);
+  });
+
+  it('compounds several actions and ignores those outside the window', () => {
+    const bars = [bar('2024-01-02', 200), bar('2024-01-03', 100), bar('2024-01-04', 99), bar('2024-01-05', 98)];
+    const { priceData, actions } = applyCorporateActions(bars, [
+      { date: '2023-12-01', type: 'split', ratio: 3 },
+      { date: '2024-01-03', type: 'split', ratio: 2 },
+      { date: '2024-01-05', type: 'dividend', amount: 0.99 },
+    ]);
+
+    expect(actions.map(action => action.date)).toEqual(['2024-01-03', '2024-01-05']);
+    expect(priceData[0].close).toBeCloseTo(100 * 0.99);
+    expect(priceData[1].close).toBeCloseTo(100 * 0.99);
+    expect(priceData[3].close).toBe(98);
+  });
+
+  it('leaves bars alone without actions', () => {
+    const bars = [bar('2024-01-02', 100)];
+    expect(applyCorporateActions(bars, [])).toEqual({ priceData: bars, actions: [] });
+  });
+});
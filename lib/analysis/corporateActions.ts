@@ -0,0 +1,87 @@
+import { CorporateAction, PriceData } from '@/types';
+
+// How far the observed overnight gap may be from the split ratio and still count as "unadjusted"
+const SPLIT_GAP_TOLERANCE = 0.25;
+
+// Back-adjusts raw bars for splits and dividends so that every bar is expressed
+// in today's share terms. Prices before an ex-date are scaled down, and volumes
+// are scaled up for splits only.
+//
+// Some providers already split-adjust their bars. A split is only applied when
+// the raw series actually shows the gap; otherwise it is marked `applied: false`
+// and skipped, so we never adjust twice.
+export function applyCorporateActions(
+  priceData: PriceData[],
+  actions: CorporateAction[]
+): { priceData: PriceData[]; actions: CorporateAction[] } {
+  if (priceData.length === 0 || actions.length === 0) {
+    return { priceData, actions: [] };
+  }
+
+  const firstDate = priceData[0].date;
+  const lastDate = priceData[priceData.length - 1].date;
+  const inWindow = actions
+    .filter(action => action.date > firstDate && action.date <= lastDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const resolved: CorporateAction[] = inWindow.map(action => {
+    const exIndex = priceData.findIndex(bar => bar.date >= action.date);
+    const previousClose = findPreviousClose(priceData, exIndex);
+
+    if (action.type === 'split') {
+      const ratio = action.ratio ?? 1;
+      const exOpen = priceData[exIndex]?.open;
+      if (ratio <= 0 || ratio === 1 || !previousClose || !(exOpen > 0)) {
+        return { ...action, applied: false };
+      }
+      const observedRatio = previousClose / exOpen;
+      return { ...action, applied: Math.abs(observedRatio / ratio - 1) <= SPLIT_GAP_TOLERANCE };
+    }
+
+    const amount = action.amount ?? 0;
+    return { ...action, applied: amount > 0 && previousClose !== null && amount < previousClose };
+  });
+
+  // Walk backwards, accumulating the adjustment of every later ex-date
+  const adjusted = priceData.map(bar => ({ ...bar }));
+  let priceFactor = 1;
+  let volumeFactor = 1;
+  let actionIndex = resolved.length - 1;
+
+  for (let i = adjusted.length - 1; i >= 0; i--) {
+    const bar = adjusted[i];
+
+    while (actionIndex >= 0 && resolved[actionIndex].date > bar.date) {
+      const action = resolved[actionIndex];
+      if (action.applied) {
+        if (action.type === 'split') {
+          priceFactor /= action.ratio!;
+          volumeFactor *= action.ratio!;
+        } else {
+          const previousClose = findPreviousClose(priceData, priceData.findIndex(d => d.date >= action.date));
+          priceFactor *= 1 - action.amount! / previousClose!;
+        }
+      }
+      actionIndex--;
+    }
+
+    if (priceFactor !== 1 || volumeFactor !== 1) {
+      bar.open *= priceFactor;
+      bar.high *= priceFactor;
+      bar.low *= priceFactor;
+      bar.close *= priceFactor;
+      bar.volume *= volumeFactor;
+    }
+  }
+
+  return { priceData: adjusted, actions: resolved };
+}
+
+function findPreviousClose(priceData: PriceData[], exIndex: number): number | null {
+  for (let i = exIndex - 1; i >= 0; i--) {
+    if (priceData[i].close > 0) {
+      return priceData[i].close;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCorrelationMatrices } from '@/lib/analysis/correlation';
+import { PriceData } from '@/types';
+
+function dateAt(index: number): string {
+  return new Date(Date.UTC(2024, 0, 1 + index)).toISOString().split('T')[0];
+}
+
+function barsFromCloses(closes: number[], dates = closes.map((_, i) => dateAt(i))): PriceData[] {
+  return closes.map((close, i) => ({ date: dates[i], open: close, high: close, low: close, close, volume: 0 }));
+}
+
+// Closes that produce the given bar returns, starting from 100
+function barsFromReturns(returns: number[]): PriceData[] {
+  const closes = [100];
+  returns.forEach(r => closes.push(closes[closes.length - 1] * (1 + r)));
+  return barsFromCloses(closes);
+}
+
+const RETURNS = [0.01, -0.02, 0.03, 0.005, -0.01, 0.02, -0.03, 0.015, -0.005, 0.025, -0.015, 0.04];
+
+describe('calculateCorrelationMatrices', () => {
+  it('gives both coefficients of 1 and -1 for linear relationships', () => {
+    const [matrix] = calculateCorrelationMatrices([
+      barsFromReturns(RETURNS),
+      barsFromReturns(RETURNS.map(r => r * 2)),
+      barsFromReturns(RETURNS.map(r => -r)),
+    ], [30]);
+
+    expect(matrix.pearson[0][1]).toBeCloseTo(1);
+    expect(matrix.spearman[0][1]).toBeCloseTo(1);
+    expect(matrix.pearson[0][2]).toBeCloseTo(-1);
+    expect(matrix.spearman[0][2]).toBeCloseTo(-1);
+    expect(matrix.pearson[1][0]).toBe(matrix.pearson[0][1]);
+    expect(matrix.pearson[0][0]).toBe(1);
+    expect(matrix.observations[0][1]).toBe(RETURNS.length);
+  });
+
+  it('gives a Spearman of 1 for any monotonic relationship', () => {
+    const [matrix] = calculateCorrelationMatrices([
+      barsFromReturns(RETURNS),
+      barsFromReturns(RETURNS.map(r => 1000 * r ** 3)),
+    ], [30]);
+
+    expect(matrix.spearman[0][1]).toBeCloseTo(1);
+    expect(matrix.pearson[0][1]).toBeLessThan(0.99);
+  });
+
+  it('averages the ranks of tied returns', () => {
+    // Whole-number returns multiply closes exactly, so the pairs really tie
+    const tied = barsFromReturns([1, 1, 3, 3, 7, 7, 15, 15, 31, 31]);
+    const increasing = barsFromReturns([1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(k => k / 100));
+    const [matrix] = calculateCorrelationMatrices([tied, increasing], [30]);
+
+    // Ranks 1.5, 1.5, 3.5, 3.5, ... against 1..10
+    expect(matrix.spearman[0][1]).toBeCloseTo(Math.sqrt(80 / 82.5), 10);
+  });
+
+  it('aligns series on shared dates with positive closes', () => {
+    const closes = [100, ...RETURNS].map((_, i, all) => 100 + i + (i % 2) * all.length);
+    const full = barsFromCloses(closes);
+    // Missing one date and with a bad close on another
+    const gappy = full.filter((_, i) => i !== 4).map(bar => (bar.date === dateAt(7) ? { ...bar, close: 0 } : bar));
+    const [matrix] = calculateCorrelationMatrices([full, gappy], [30]);
+
+    expect(matrix.observations[0][1]).toBe(closes.length - 3);
+    expect(matrix.pearson[0][1]).toBeCloseTo(1);
+  });
+
+  it('uses the latest returns of each window and needs enough of them', () => {
+    const a = barsFromReturns(RETURNS);
+    const b = barsFromReturns(RETURNS.map((r, i) => (i < 2 ? -r * 50 : r)));
+    const [short, long] = calculateCorrelationMatrices([a, b], [10, 30]);
+
+    expect(short.observations[0][1]).toBe(10);
+    expect(short.pearson[0][1]).toBeCloseTo(1);
+    expect(long.pearson[0][1]).toBeLessThan(0.5);
+
+    const [tooShort] = calculateCorrelationMatrices([a.slice(0, 8), b.slice(0, 8)], [30]);
+    expect(tooShort.observations[0][1]).toBe(7);
+    expect(tooShort.pearson[0][1]).toBeNull();
+    expect(tooShort.spearman[0][1]).toBeNull();
+    expect(tooShort.observations[0][0]).toBe(7);
+  });
+
+  it('has no coefficient when one side never moves', () => {
+    const flat = barsFromCloses(new Array(RETURNS.length + 1).fill(50));
+    const [matrix] = calculateCorrelationMatrices([barsFromReturns(RETURNS), flat], [30]);
+
+    expect(matrix.observations[0][1]).toBe(RETURNS.length);
+    expect(matrix.pearson[0][1]).toBeNull();
+    expect(matrix.spearman[0][1]).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { CorrelationMatrix, PriceData } from '@/types';
+
+// Pairs with fewer shared returns than this get no coefficient
+export const MIN_CORRELATION_OBSERVATIONS = 10;
+
+// Returns of two series over the dates both traded. A return spans the gap
+// between consecutive shared dates, so a coin's weekend move lands in the
+// same Monday return as the stock it is compared with.
+function alignReturns(a: PriceData[], b: PriceData[]): [number[], number[]] {
+  const closesB = new Map(b.filter(bar => bar.close > 0).map(bar => [bar.date, bar.close]));
+  const shared = a.filter(bar => bar.close > 0 && closesB.has(bar.date));
+  const returnsA: number[] = [];
+  const returnsB: number[] = [];
+  for (let i = 1; i < shared.length; i++) {
+    returnsA.push(shared[i].close / shared[i - 1].close - 1);
+    returnsB.push(closesB.get(shared[i].date)! / closesB.get(shared[i - 1].date)! - 1);
+  }
+  return [returnsA, returnsB];
+}
+
+function pearson(x: number[], y: number[]): number | null {
+  const n = x.length;
+  const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null;
+}
+
+// Ranks from 1, ties sharing the average of the ranks they span
+function toRanks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) {
+      end++;
+    }
+    for (let i = start; i <= end; i++) {
+      ranks[order[i].index] = (start + end) / 2 + 1;
+    }
+    start = end + 1;
+  }
+  return ranks;
+}
+
+function spearman(x: number[], y: number[]): number | null {
+  return pearson(toRanks(x), toRanks(y));
+}
+
+// One matrix per window, each over the latest `window` shared returns of
+// every pair. Rows and columns follow the order of `series`.
+export function calculateCorrelationMatrices(series: PriceData[][], windows: number[]): CorrelationMatrix[] {
+  const n = series.length;
+  const aligned = new Map<string, [number[], number[]]>();
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      aligned.set(`${i}:${j}`, alignReturns(series[i], series[j]));
+    }
+  }
+
+  return windows.map(window => {
+    const matrix: CorrelationMatrix = {
+      window,
+      pearson: series.map(() => new Array<number | null>(n).fill(null)),
+      spearman: series.map(() => new Array<number | null>(n).fill(null)),
+      observations: series.map(() => new Array<number>(n).fill(0)),
+    };
+
+    for (let i = 0; i < n; i++) {
+      matrix.pearson[i][i] = 1;
+      matrix.spearman[i][i] = 1;
+      matrix.observations[i][i] = Math.min(window, Math.max(0, series[i].length - 1));
+      for (let j = i + 1; j < n; j++) {
+        const [returnsA, returnsB] = aligned.get(`${i}:${j}`)!;
+        const x = returnsA.slice(-window);
+        const y = returnsB.slice(-window);
+        matrix.observations[i][j] = matrix.observations[j][i] = x.length;
+        if (x.length < MIN_CORRELATION_OBSERVATIONS) {
+          continue;
+        }
+        matrix.pearson[i][j] = matrix.pearson[j][i] = pearson(x, y);
+        matrix.spearman[i][j] = matrix.spearman[j][i] = spearman(x, y);
+      }
+    }
+    return matrix;
+  });
+}
@@ -0,0 +1,203 @@
+import { AssetType, BarInterval, DataQualityIssue, DataQualityIssueType, DataQualityReport, PriceData } from '@/types';
+import { countTradingDaysBetween } from '@/lib/utils/marketCalendar';
+
+const MAX_REPORTED_ISSUES = 25;
+
+// A single-bar move this large that fully reverses on the next bar is treated as a bad print
+const SPIKE_THRESHOLD: Record<AssetType, number> = {
+  us_stock: 0.25,
+  indian_stock: 0.25,
+  crypto: 0.40,
+};
+
+function isValidPrice(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+// Validates and repairs raw bars before they reach the indicator calculations.
+// Bars without a usable close are dropped; every other problem is repaired in
+// place or flagged, and all of it is summarised in the returned report.
+export function validatePriceData(
+  rawData: PriceData[],
+  assetType: AssetType,
+  interval: BarInterval = '1d'
+): { priceData: PriceData[]; report: DataQualityReport } {
+  const issues: DataQualityIssue[] = [];
+  const repairedDates = new Set<string>();
+  let droppedBars = 0;
+
+  const record = (issue: DataQualityIssue) => {
+    issues.push(issue);
+    if (issue.action === 'repaired') {
+      repairedDates.add(issue.date);
+    }
+  };
+
+  // Sort and de-duplicate: providers occasionally repeat the latest bar
+  const byDate = new Map<string, PriceData>();
+  [...rawData]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(bar => {
+      if (byDate.has(bar.date)) {
+        droppedBars++;
+        record({ type: 'duplicate_date', date: bar.date, action: 'dropped', detail: 'Duplicate bar for date' });
+      }
+      byDate.set(bar.date, bar);
+    });
+
+  const priceData: PriceData[] = [];
+  for (const rawBar of Array.from(byDate.values())) {
+    const bar = { ...rawBar };
+
+    if (!isValidPrice(bar.close)) {
+      droppedBars++;
+      record({ type: 'invalid_close', date: bar.date, action: 'dropped', detail: `Close is ${bar.close}` });
+      continue;
+    }
+
+    const previousClose = priceData.length > 0 ? priceData[priceData.length - 1].close : bar.close;
+    const invalidFields = (['open', 'high', 'low'] as const).filter(field => !isValidPrice(bar[field]));
+    if (invalidFields.length > 0) {
+      if (!isValidPrice(bar.open)) bar.open = previousClose;
+      if (!isValidPrice(bar.high)) bar.high = Math.max(bar.open, bar.close);
+      if (!isValidPrice(bar.low)) bar.low = Math.min(bar.open, bar.close);
+      record({ type: 'invalid_ohlc', date: bar.date, action: 'repaired', detail: `Rebuilt ${invalidFields.join(', ')} from open/close` });
+    }
+
+    if (bar.high < bar.low) {
+      [bar.high, bar.low] = [bar.low, bar.high];
+      record({ type: 'high_low_inversion', date: bar.date, action: 'repaired', detail: 'Swapped high and low' });
+    }
+    // High and low must bracket the open and close
+    if (bar.high < Math.max(bar.open, bar.close) || bar.low > Math.min(bar.open, bar.close)) {
+      bar.high = Math.max(bar.high, bar.open, bar.close);
+      bar.low = Math.min(bar.low, bar.open, bar.close);
+      record({ type: 'high_low_inversion', date: bar.date, action: 'repaired', detail: 'Widened high/low to include open and close' });
+    }
+
+    if (typeof bar.volume !== 'number' || !isFinite(bar.volume) || bar.volume < 0) {
+      bar.volume = 0;
+      record({ type: 'invalid_volume', date: bar.date, action: 'repaired', detail: 'Missing volume set to 0' });
+    } else if (bar.volume === 0) {
+      record({ type: 'zero_volume', date: bar.date, action: 'flagged', detail: 'Bar has zero volume' });
+    }
+
+    priceData.push(bar);
+  }
+
+  repairSpikes(priceData, SPIKE_THRESHOLD[assetType], record);
+  // Gaps are only measured against the daily calendar
+  const missingDays = interval === '1d' ? countMissingDays(priceData, assetType, record) : 0;
+
+  const issueCounts: Partial<Record<DataQualityIssueType, number>> = {};
+  issues.forEach(issue => {
+    issueCounts[issue.type] = (issueCounts[issue.type] || 0) + 1;
+  });
+
+  const report: DataQualityReport = {
+    score: calculateDataQualityScore(rawData.length, priceData.length, repairedDates.size, droppedBars, missingDays, issueCounts),
+    totalBars: rawData.length,
+    validBars: priceData.length,
+    repairedBars: repairedDates.size,
+    droppedBars,
+    missingDays,
+    issueCounts,
+    issues: issues.sort((a, b) => a.date.localeCompare(b.date)).slice(-MAX_REPORTED_ISSUES),
+  };
+
+  return { priceData, report };
+}
+
+// A bad print jumps away and straight back; a genuine gap (earnings, news) does not revert
+function repairSpikes(
+  priceData: PriceData[],
+  threshold: number,
+  record: (issue: DataQualityIssue) => void
+): void {
+  for (let i = 1; i < priceData.length; i++) {
+    const prev = priceData[i - 1].close;
+    const bar = priceData[i];
+    const move = (bar.close - prev) / prev;
+
+    if (Math.abs(move) < threshold) {
+      continue;
+    }
+
+    const next = priceData[i + 1]?.close;
+    const reverts = next !== undefined && Math.abs((next - prev) / prev) < threshold / 2;
+
+    if (reverts) {
+      const repairedClose = (prev + next) / 2;
+      bar.close = repairedClose;
+      bar.open = Math.min(Math.max(bar.open, Math.min(prev, next)), Math.max(prev, next));
+      bar.high = Math.max(bar.open, bar.close, Math.min(bar.high, Math.max(prev, next) * (1 + threshold / 2)));
+      bar.low = Math.min(bar.open, bar.close, Math.max(bar.low, Math.min(prev, next) * (1 - threshold / 2)));
+      record({
+        type: 'outlier_spike',
+        date: bar.date,
+        action: 'repaired',
+        detail: `${(move * 100).toFixed(1)}% spike reverted next bar; close interpolated`,
+      });
+    } else {
+      record({
+        type: 'outlier_spike',
+        date: bar.date,
+        action: 'flagged',
+        detail: `${(move * 100).toFixed(1)}% move in a single bar`,
+      });
+    }
+  }
+}
+
+function countMissingDays(
+  priceData: PriceData[],
+  assetType: AssetType,
+  record: (issue: DataQualityIssue) => void
+): number {
+  let missingDays = 0;
+
+  for (let i = 1; i < priceData.length; i++) {
+    // Weekends and exchange holidays are not gaps
+    const gap = countTradingDaysBetween(priceData[i - 1].date, priceData[i].date, assetType);
+
+    if (gap > 0) {
+      missingDays += gap;
+      record({
+        type: 'missing_days',
+        date: priceData[i].date,
+        action: 'flagged',
+        detail: `${gap} expected trading day${gap > 1 ? 's' : ''} missing before this bar`,
+      });
+    }
+  }
+
+  return missingDays;
+}
+
+function calculateDataQualityScore(
+  totalBars: number,
+  validBars: number,
+  repairedBars: number,
+  droppedBars: number,
+  missingDays: number,
+  issueCounts: Partial<Record<DataQualityIssueType, number>>
+): number {
+  if (totalBars === 0 || validBars === 0) {
+    return 0;
+  }
+
+  const droppedRatio = droppedBars / totalBars;
+  const repairedRatio = repairedBars / validBars;
+  const missingRatio = missingDays / (validBars + missingDays);
+  const outlierRatio = (issueCounts.outlier_spike || 0) / validBars;
+  const zeroVolumeRatio = (issueCounts.zero_volume || 0) / validBars;
+
+  const penalty =
+    droppedRatio * 150 +
+    repairedRatio * 100 +
+    missingRatio * 100 +
+    outlierRatio * 200 +
+    zeroVolumeRatio * 50;
+
+  return Math.max(0, Math.min(100, 100 - penalty));
+}
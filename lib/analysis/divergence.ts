@@ -0,0 +1,86 @@
+import { DivergenceEvent, IndicatorSeries, Pivot, PriceData, SeriesValues, StrategyConfig } from '@/types';
+import { findSwingPivots } from '@/lib/analysis/pivots';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+type DivergenceIndicator = DivergenceEvent['indicator'];
+
+function getIndicatorValues(series: IndicatorSeries, indicator: DivergenceIndicator): SeriesValues {
+  if (indicator === 'macd') {
+    return series.macd.MACD;
+  }
+  return series[indicator];
+}
+
+// Classic: price makes the more extreme swing while the indicator does not.
+// Hidden: the indicator makes the more extreme swing while price does not.
+function classify(
+  type: Pivot['type'],
+  priceMove: number,
+  indicatorMove: number
+): Pick<DivergenceEvent, 'kind' | 'direction'> | null {
+  if (type === 'low') {
+    if (priceMove < 0 && indicatorMove > 0) return { kind: 'classic', direction: 'bullish' };
+    if (priceMove > 0 && indicatorMove < 0) return { kind: 'hidden', direction: 'bullish' };
+  } else {
+    if (priceMove > 0 && indicatorMove < 0) return { kind: 'classic', direction: 'bearish' };
+    if (priceMove < 0 && indicatorMove > 0) return { kind: 'hidden', direction: 'bearish' };
+  }
+  return null;
+}
+
+// Compares consecutive swing highs (and consecutive swing lows) inside the
+// window against RSI, the MACD line and OBV. Strength weighs how far the
+// indicator moved, relative to its range over the window, against how far
+// price moved (a 10% move scores full marks). Most recent events first.
+export function detectDivergences(
+  priceData: PriceData[],
+  series: IndicatorSeries,
+  config: StrategyConfig['divergence'] = DEFAULT_STRATEGY.divergence
+): DivergenceEvent[] {
+  const windowStart = Math.max(0, priceData.length - config.window);
+  const pivots = findSwingPivots(priceData, config.pivotBars).filter(pivot => pivot.index >= windowStart);
+  const lastIndex = priceData.length - 1;
+  const events: DivergenceEvent[] = [];
+
+  (['rsi', 'macd', 'obv'] as DivergenceIndicator[]).forEach(indicator => {
+    const values = getIndicatorValues(series, indicator);
+    const windowValues = values.slice(windowStart).filter((value): value is number => value !== null);
+    const range = windowValues.length > 0 ? Math.max(...windowValues) - Math.min(...windowValues) : 0;
+    if (range <= 0) {
+      return;
+    }
+
+    (['high', 'low'] as Pivot['type'][]).forEach(type => {
+      const swings = pivots.filter(pivot => pivot.type === type);
+      for (let i = 1; i < swings.length; i++) {
+        const first = swings[i - 1];
+        const second = swings[i];
+        const start = values[first.index];
+        const end = values[second.index];
+        if (start === null || end === null) {
+          continue;
+        }
+
+        const signal = classify(type, second.price - first.price, end - start);
+        if (!signal) {
+          continue;
+        }
+
+        const indicatorScore = Math.min(100, (Math.abs(end - start) / range) * 100);
+        const priceScore = Math.min(100, (Math.abs(second.price - first.price) / first.price) * 1000);
+        events.push({
+          indicator,
+          ...signal,
+          startDate: first.date,
+          endDate: second.date,
+          price: { start: first.price, end: second.price },
+          indicatorValue: { start, end },
+          strength: indicatorScore * 0.6 + priceScore * 0.4,
+          barsAgo: lastIndex - second.index,
+        });
+      }
+    });
+  });
+
+  return events.sort((a, b) => a.barsAgo - b.barsAgo || b.strength - a.strength);
+}
@@ -0,0 +1,50 @@
+import { ExchangeComparison, ListingPrice } from '@/types';
+import { fetchPriceHistory, fetchQuote } from '@/lib/data/providers';
+import { INDIAN_EXCHANGES, fromIndianListing, toIndianListing } from '@/lib/utils/exchanges';
+
+// Prices a dual-listed scrip on both NSE and BSE. Live quotes are preferred;
+// a listing without one is priced at its last stored close instead.
+export async function compareIndianListings(symbol: string): Promise<ExchangeComparison> {
+  const base = fromIndianListing(symbol).symbol;
+
+  const results = await Promise.all(INDIAN_EXCHANGES.map(async (exchange): Promise<ListingPrice | null> => {
+    const listing = toIndianListing(base, exchange);
+    try {
+      const { data: quote } = await fetchQuote('indian_stock', listing);
+      return {
+        exchange,
+        listing,
+        price: quote.price,
+        changePercent: quote.changePercent,
+        currency: quote.currency?.toUpperCase() || 'INR',
+        source: 'quote',
+      };
+    } catch (quoteError) {
+      try {
+        const history = await fetchPriceHistory('indian_stock', listing, { lookbackDays: 10 });
+        const lastBar = history.data[history.data.length - 1];
+        return lastBar
+          ? { exchange, listing, price: lastBar.close, currency: 'INR', source: 'history', asOf: lastBar.date }
+          : null;
+      } catch (historyError) {
+        console.warn(`No ${exchange} price available for ${base}`);
+        return null;
+      }
+    }
+  }));
+
+  const listings = results.filter((result): result is ListingPrice => result !== null);
+  if (listings.length === 0) {
+    throw new Error(`No NSE or BSE price available for ${base}`);
+  }
+
+  const comparison: ExchangeComparison = { symbol: base, listings };
+  if (listings.length === 2) {
+    const [cheaper, dearer] = [...listings].sort((a, b) => a.price - b.price);
+    comparison.spread = dearer.price - cheaper.price;
+    comparison.spreadPercent = (comparison.spread / cheaper.price) * 100;
+    comparison.cheaperExchange = comparison.spread > 0 ? cheaper.exchange : undefined;
+  }
+
+  return comparison;
+}
@@ -1,14 +1,65 @@
-import { FundamentalData, PriceData } from '@/types';
+import { AssetType, BarInterval, FundamentalData, FundamentalSnapshot, PriceData } from '@/types';
+import { findLookbackIndex } from '@/lib/utils/marketCalendar';
+
+interface SectorProfile {
+  peRange: [number, number]; // fair trailing P/E band for the sector
+  pbRange: [number, number]; // fair price-to-book band
+  maxDebtToEquity: number | null; // null where leverage is the business model (banks)
+  strongROE: number;
+}
+
+// Typical valuation bands per sector. A P/E of 30 is cheap for software and
+// expensive for a utility, so each metric is judged against its sector.
+const SECTOR_PROFILES: Record<string, SectorProfile> = {
+  technology: { peRange: [18, 35], pbRange: [3, 10], maxDebtToEquity: 1.0, strongROE: 0.20 },
+  communication: { peRange: [14, 28], pbRange: [2, 6], maxDebtToEquity: 1.5, strongROE: 0.15 },
+  healthcare: { peRange: [15, 30], pbRange: [2, 6], maxDebtToEquity: 1.0, strongROE: 0.15 },
+  financial: { peRange: [8, 16], pbRange: [0.8, 2], maxDebtToEquity: null, strongROE: 0.12 },
+  consumer_cyclical: { peRange: [12, 25], pbRange: [1.5, 5], maxDebtToEquity: 1.5, strongROE: 0.15 },
+  consumer_defensive: { peRange: [15, 28], pbRange: [2, 8], maxDebtToEquity: 1.5, strongROE: 0.18 },
+  energy: { peRange: [6, 15], pbRange: [0.8, 2.5], maxDebtToEquity: 1.0, strongROE: 0.12 },
+  industrials: { peRange: [12, 24], pbRange: [1.5, 5], maxDebtToEquity: 1.5, strongROE: 0.15 },
+  materials: { peRange: [8, 18], pbRange: [1, 3], maxDebtToEquity: 1.0, strongROE: 0.12 },
+  utilities: { peRange: [12, 20], pbRange: [1, 2.5], maxDebtToEquity: 2.5, strongROE: 0.10 },
+  real_estate: { peRange: [15, 35], pbRange: [0.8, 2.5], maxDebtToEquity: 2.5, strongROE: 0.08 },
+  default: { peRange: [10, 25], pbRange: [1, 3], maxDebtToEquity: 1.5, strongROE: 0.15 },
+};
+
+// Providers name sectors differently (Yahoo: "Financial Services", IEX: "Finance")
+const SECTOR_KEYWORDS: [RegExp, string][] = [
+  [/tech|software|semiconductor|electronic/i, 'technology'],
+  [/communication|telecom|media/i, 'communication'],
+  [/health|pharma|biotech|medical/i, 'healthcare'],
+  [/financ|bank|insurance/i, 'financial'],
+  [/cyclical|retail|automo|discretionary/i, 'consumer_cyclical'],
+  [/defensive|staples|consumer non|food|beverage/i, 'consumer_defensive'],
+  [/energy|oil|gas/i, 'energy'],
+  [/industrial|manufactur|transport/i, 'industrials'],
+  [/material|mining|chemical|metal|process industries/i, 'materials'],
+  [/utilit/i, 'utilities'],
+  [/real estate|reit/i, 'real_estate'],
+];
+
+export function getSectorProfile(sector?: string): SectorProfile {
+  if (!sector) {
+    return SECTOR_PROFILES.default;
+  }
+  const match = SECTOR_KEYWORDS.find(([pattern]) => pattern.test(sector));
+  return match ? SECTOR_PROFILES[match[1]] : SECTOR_PROFILES.default;
+}
 
 export function analyzeFundamentals(
   priceData: PriceData[],
-  marketCap?: number,
-  peRatio?: number,
-  priceToBook?: number
+  assetType: AssetType,
+  snapshot: FundamentalSnapshot = {},
+  interval: BarInterval = '1d'
 ): FundamentalData {
-  // Analyze volume trends
-  const recentVolumes = priceData.slice(-20).map(d => d.volume);
-  const olderVolumes = priceData.slice(-40, -20).map(d => d.volume);
+  // Analyze volume trends: the last 20 periods against the 20 before them
+  // (trading sessions for daily bars)
+  const recentStart = findLookbackIndex(priceData, 20, assetType, interval) + 1;
+  const olderStart = findLookbackIndex(priceData, 40, assetType, interval) + 1;
+  const recentVolumes = priceData.slice(recentStart).map(d => d.volume);
+  const olderVolumes = priceData.slice(olderStart, recentStart).map(d => d.volume);
 
   const recentAvgVolume = recentVolumes.reduce((sum, v) => sum + v, 0) / recentVolumes.length;
   const olderAvgVolume = olderVolumes.reduce((sum, v) => sum + v, 0) / olderVolumes.length;
@@ -25,45 +76,158 @@ export function analyzeFundamentals(
   }
 
   return {
-    peRatio,
-    marketCap,
-    priceToBook,
+    ...snapshot,
+    peRatio: snapshot.trailingPE,
     volumeTrend,
     averageVolume: recentAvgVolume,
   };
 }
 
+function scoreVolumeTrend(fundamentals: FundamentalData): number {
+  if (fundamentals.volumeTrend === 'increasing') {
+    return 15; // Increasing volume is positive
+  } else if (fundamentals.volumeTrend === 'decreasing') {
+    return -15; // Decreasing volume is negative
+  }
+  return 0;
+}
+
 export function calculateFundamentalScore(fundamentals: FundamentalData): number {
+  // Coins have no earnings or book value; they get their own model
+  if (fundamentals.crypto) {
+    return calculateCryptoFundamentalScore(fundamentals);
+  }
+
   let score = 50; // Base score
+  const profile = getSectorProfile(fundamentals.sector);
 
   // Volume trend scoring
-  if (fundamentals.volumeTrend === 'increasing') {
-    score += 15; // Increasing volume is positive
-  } else if (fundamentals.volumeTrend === 'decreasing') {
-    score -= 15; // Decreasing volume is negative
+  score += scoreVolumeTrend(fundamentals);
+
+  // P/E Ratio scoring against the sector's fair band
+  const peRatio = fundamentals.trailingPE ?? fundamentals.peRatio;
+  if (peRatio !== undefined) {
+    if (peRatio <= 0) {
+      score -= 10; // Loss-making
+    } else if (peRatio < profile.peRange[0]) {
+      score += 10; // Cheap for its sector
+    } else if (peRatio > profile.peRange[1]) {
+      score -= 10; // Expensive for its sector
+    }
+  }
+
+  // Forward P/E below trailing means analysts expect earnings to grow
+  if (peRatio !== undefined && peRatio > 0 && fundamentals.forwardPE !== undefined && fundamentals.forwardPE > 0) {
+    if (fundamentals.forwardPE < peRatio * 0.9) {
+      score += 5;
+    } else if (fundamentals.forwardPE > peRatio * 1.1) {
+      score -= 5;
+    }
   }
 
-  // P/E Ratio scoring (if available)
-  if (fundamentals.peRatio !== undefined) {
-    // Lower P/E is generally better, but context matters
-    // For this simple model, we'll consider P/E between 10-25 as good
-    if (fundamentals.peRatio > 0 && fundamentals.peRatio < 10) {
-      score += 10; // Very low P/E might indicate undervaluation
-    } else if (fundamentals.peRatio > 25) {
-      score -= 10; // High P/E might indicate overvaluation
+  // Price-to-Book scoring against the sector's fair band
+  if (fundamentals.priceToBook !== undefined && fundamentals.priceToBook > 0) {
+    if (fundamentals.priceToBook < profile.pbRange[0]) {
+      score += 8;
+    } else if (fundamentals.priceToBook > profile.pbRange[1]) {
+      score -= 8;
     }
   }
 
-  // Price-to-Book scoring (if available)
-  if (fundamentals.priceToBook !== undefined) {
-    // P/B < 1 might indicate undervaluation, P/B > 3 might indicate overvaluation
-    if (fundamentals.priceToBook > 0 && fundamentals.priceToBook < 1) {
+  // Growth
+  if (fundamentals.epsGrowth !== undefined) {
+    if (fundamentals.epsGrowth > 0.10) {
+      score += 8;
+    } else if (fundamentals.epsGrowth < 0) {
+      score -= 8;
+    }
+  }
+  if (fundamentals.revenueGrowth !== undefined) {
+    if (fundamentals.revenueGrowth > 0.10) {
+      score += 5;
+    } else if (fundamentals.revenueGrowth < 0) {
+      score -= 5;
+    }
+  }
+
+  // Profitability and balance sheet
+  if (fundamentals.returnOnEquity !== undefined) {
+    if (fundamentals.returnOnEquity >= profile.strongROE) {
+      score += 8;
+    } else if (fundamentals.returnOnEquity < 0.05) {
+      score -= 5;
+    }
+  }
+  if (fundamentals.debtToEquity !== undefined && profile.maxDebtToEquity !== null) {
+    if (fundamentals.debtToEquity > profile.maxDebtToEquity) {
+      score -= 8;
+    }
+  }
+
+  // A meaningful dividend adds a little support
+  if (fundamentals.dividendYield !== undefined && fundamentals.dividendYield >= 0.02) {
+    score += 3;
+  }
+
+  return Math.max(0, Math.min(100, score));
+}
+
+export function calculateCryptoFundamentalScore(fundamentals: FundamentalData): number {
+  let score = 50; // Base score
+  const crypto = fundamentals.crypto || {};
+
+  score += scoreVolumeTrend(fundamentals);
+
+  // Market-cap rank: large networks are deeper and harder to manipulate
+  if (crypto.marketCapRank !== undefined) {
+    if (crypto.marketCapRank <= 10) {
       score += 10;
-    } else if (fundamentals.priceToBook > 3) {
+    } else if (crypto.marketCapRank <= 50) {
+      score += 5;
+    } else if (crypto.marketCapRank > 200) {
+      score -= 10;
+    }
+  }
+
+  // Dilution overhang: FDV well above market cap means unlocks are still coming
+  if (crypto.fdvToMarketCap !== undefined) {
+    if (crypto.fdvToMarketCap <= 1.2) {
+      score += 8;
+    } else if (crypto.fdvToMarketCap > 5) {
+      score -= 15;
+    } else if (crypto.fdvToMarketCap > 2) {
       score -= 10;
     }
   }
 
+  // Supply schedule: a hard cap that is mostly in circulation is positive
+  if (crypto.maxSupply !== undefined && crypto.circulatingSupply !== undefined) {
+    if (crypto.circulatingSupply / crypto.maxSupply >= 0.9) {
+      score += 5;
+    }
+  } else if (crypto.circulatingSupply !== undefined && crypto.maxSupply === undefined) {
+    score -= 3; // Uncapped supply
+  }
+
+  // Turnover: healthy trading without wash-trading levels
+  if (crypto.volumeToMarketCap !== undefined) {
+    if (crypto.volumeToMarketCap < 0.01) {
+      score -= 10; // Illiquid
+    } else if (crypto.volumeToMarketCap > 0.5) {
+      score -= 5; // Speculative churn
+    } else if (crypto.volumeToMarketCap >= 0.03) {
+      score += 5;
+    }
+  }
+
+  // Distance from all-time high
+  if (crypto.athChangePercent !== undefined) {
+    if (crypto.athChangePercent >= -20) {
+      score += 5; // Trading near highs
+    } else if (crypto.athChangePercent <= -80) {
+      score -= 8; // Deep, unrecovered drawdown
+    }
+  }
+
   return Math.max(0, Math.min(100, score));
 }
-
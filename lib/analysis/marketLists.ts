@@ -0,0 +1,154 @@
+import { Asset, AssetType, IndianExchange, MarketRegime, StrategyConfig, Timeframe } from '@/types';
+import { MarketContext, analyzeAsset, analyzeIndianStock, loadMarketContext } from '@/lib/analysis/pipeline';
+import { rankRelativeStrength } from '@/lib/analysis/relativeStrength';
+import { toIndianListing } from '@/lib/utils/exchanges';
+
+// Popular US stocks to analyze
+export const US_STOCKS = [
+  { symbol: 'AAPL', name: 'Apple Inc.' },
+  { symbol: 'MSFT', name: 'Microsoft Corporation' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.' },
+  { symbol: 'TSLA', name: 'Tesla Inc.' },
+  { symbol: 'META', name: 'Meta Platforms Inc.' },
+  { symbol: 'NVDA', name: 'NVIDIA Corporation' },
+  { symbol: 'JPM', name: 'JPMorgan Chase & Co.' },
+  { symbol: 'V', name: 'Visa Inc.' },
+  { symbol: 'JNJ', name: 'Johnson & Johnson' },
+];
+
+// Popular Indian stocks to analyze
+export const INDIAN_STOCKS = [
+  { symbol: 'RELIANCE', name: 'Reliance Industries Ltd' },
+  { symbol: 'TCS', name: 'Tata Consultancy Services' },
+  { symbol: 'HDFCBANK', name: 'HDFC Bank Ltd' },
+  { symbol: 'INFY', name: 'Infosys Ltd' },
+  { symbol: 'HINDUNILVR', name: 'Hindustan Unilever Ltd' },
+  { symbol: 'ICICIBANK', name: 'ICICI Bank Ltd' },
+  { symbol: 'BHARTIARTL', name: 'Bharti Airtel Ltd' },
+  { symbol: 'SBIN', name: 'State Bank of India' },
+  { symbol: 'BAJFINANCE', name: 'Bajaj Finance Ltd' },
+  { symbol: 'LICI', name: 'Life Insurance Corporation of India' },
+];
+
+// Popular cryptocurrencies to analyze
+export const CRYPTO_COINS = [
+  { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' },
+  { id: 'ethereum', symbol: 'ETH', name: 'Ethereum' },
+  { id: 'binancecoin', symbol: 'BNB', name: 'BNB' },
+  { id: 'solana', symbol: 'SOL', name: 'Solana' },
+  { id: 'cardano', symbol: 'ADA', name: 'Cardano' },
+  { id: 'ripple', symbol: 'XRP', name: 'XRP' },
+  { id: 'polkadot', symbol: 'DOT', name: 'Polkadot' },
+  { id: 'dogecoin', symbol: 'DOGE', name: 'Dogecoin' },
+  { id: 'matic-network', symbol: 'MATIC', name: 'Polygon' },
+  { id: 'avalanche-2', symbol: 'AVAX', name: 'Avalanche' },
+];
+
+const US_LIST_SIZE = 10;
+const CRYPTO_LIST_SIZE = 5; // CoinGecko's Demo API allows 30 calls a minute
+
+export interface MarketList {
+  assets: Asset[]; // best first
+  regime: MarketRegime | null;
+}
+
+// Analyzes each entry against one shared market context. Entries that fail
+// are logged and skipped; relative strength is ranked within what remains.
+async function analyzeList<T extends { symbol: string }>(
+  assetType: AssetType,
+  entries: T[],
+  providerSymbol: (entry: T) => string,
+  analyze: (entry: T, market: MarketContext) => Promise<Asset>,
+  timeframe: Timeframe,
+  strategy: StrategyConfig
+): Promise<MarketList> {
+  // Histories, benchmark and regime are loaded once for the whole list
+  const market = await loadMarketContext(assetType, entries.map(providerSymbol), timeframe, strategy);
+  const assets: Asset[] = [];
+
+  for (const entry of entries) { // Provider calls are paced by the shared rate limiter
+    try {
+      assets.push(await analyze(entry, market));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error analyzing ${entry.symbol}: ${errorMessage}`);
+    }
+  }
+
+  // Relative-strength percentiles within this list
+  rankRelativeStrength(assets);
+  assets.sort((a, b) => b.overallScore - a.overallScore);
+  return { assets, regime: market.regime };
+}
+
+export function analyzeUSStockList(timeframe: Timeframe, strategy: StrategyConfig): Promise<MarketList> {
+  return analyzeList(
+    'us_stock',
+    US_STOCKS.slice(0, US_LIST_SIZE),
+    stock => stock.symbol,
+    (stock, market) => analyzeAsset('us_stock', stock.symbol, stock.name, timeframe, strategy, market),
+    timeframe,
+    strategy
+  );
+}
+
+// Without an exchange each scrip is tried on NSE first, with BSE as the fallback
+export function analyzeIndianStockList(
+  timeframe: Timeframe,
+  strategy: StrategyConfig,
+  exchange?: IndianExchange
+): Promise<MarketList> {
+  return analyzeList(
+    'indian_stock',
+    INDIAN_STOCKS,
+    stock => toIndianListing(stock.symbol, exchange ?? 'NSE'),
+    (stock, market) => analyzeIndianStock(stock.symbol, stock.name, exchange, timeframe, strategy, market),
+    timeframe,
+    strategy
+  );
+}
+
+export function analyzeCryptoList(timeframe: Timeframe, strategy: StrategyConfig): Promise<MarketList> {
+  return analyzeList(
+    'crypto',
+    CRYPTO_COINS.slice(0, CRYPTO_LIST_SIZE),
+    coin => coin.id,
+    (coin, market) => analyzeAsset('crypto', coin.id, coin.name, timeframe, strategy, market),
+    timeframe,
+    strategy
+  );
+}
+
+const LIST_ANALYZERS: Record<AssetType, (timeframe: Timeframe, strategy: StrategyConfig) => Promise<MarketList>> = {
+  us_stock: analyzeUSStockList,
+  indian_stock: analyzeIndianStockList,
+  crypto: analyzeCryptoList,
+};
+
+// The lists of several markets merged best first, with each market's regime.
+// A market that fails entirely is logged and left out.
+export async function analyzeMarkets(
+  assetTypes: AssetType[],
+  timeframe: Timeframe,
+  strategies: Record<AssetType, StrategyConfig>
+): Promise<{ assets: Asset[]; regimes: Partial<Record<AssetType, MarketRegime>> }> {
+  const assets: Asset[] = [];
+  const regimes: Partial<Record<AssetType, MarketRegime>> = {};
+
+  for (const assetType of assetTypes) {
+    try {
+      const list = await LIST_ANALYZERS[assetType](timeframe, strategies[assetType]);
+      assets.push(...list.assets);
+      if (list.regime) {
+        regimes[assetType] = list.regime;
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error analyzing the ${assetType} list: ${errorMessage}`);
+    }
+  }
+
+  assets.sort((a, b) => b.overallScore - a.overallScore);
+  return { assets, regimes };
+}
@@ -1,20 +1,30 @@
-import { MomentumScore, TechnicalIndicators } from '@/types';
+import { AssetType, BarInterval, MomentumScore, PriceData, StrategyConfig, TechnicalIndicators } from '@/types';
+import { findLookbackIndex } from '@/lib/utils/marketCalendar';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
 
 export function calculateMomentumScore(
   technicalIndicators: TechnicalIndicators,
-  priceData: { close: number }[]
+  priceData: PriceData[],
+  assetType: AssetType,
+  interval: BarInterval = '1d',
+  strategy: StrategyConfig = DEFAULT_STRATEGY
 ): MomentumScore {
+  const { rsi, stochastic, adx } = strategy.indicators;
+  const { shortLookback, longLookback, weights, blend } = strategy.momentum;
   const currentPrice = priceData[priceData.length - 1].close;
-  const price20DaysAgo = priceData[Math.max(0, priceData.length - 20)].close;
-  const price50DaysAgo = priceData[Math.max(0, priceData.length - 50)].close;
+  // Periods of the chosen interval; daily lookbacks count trading sessions
+  const priceShortAgo = priceData[findLookbackIndex(priceData, shortLookback, assetType, interval)].close;
+  const priceLongAgo = priceData[findLookbackIndex(priceData, longLookback, assetType, interval)].close;
 
   // RSI Score (0-100, normalized)
-  // RSI > 70 = overbought (negative), RSI < 30 = oversold (positive)
-  const rsiScore = technicalIndicators.rsi < 30 
-    ? 100 - (technicalIndicators.rsi / 30) * 50  // Oversold = bullish
-    : technicalIndicators.rsi > 70
-    ? 50 - ((technicalIndicators.rsi - 70) / 30) * 50  // Overbought = bearish
-    : 50 + ((50 - Math.abs(technicalIndicators.rsi - 50)) / 20) * 30; // Neutral zone
+  // RSI above the overbought band = bearish, below the oversold band = bullish
+  const rsiMid = (rsi.oversold + rsi.overbought) / 2;
+  const rsiHalfBand = (rsi.overbought - rsi.oversold) / 2;
+  const rsiScore = technicalIndicators.rsi < rsi.oversold
+    ? 100 - (technicalIndicators.rsi / rsi.oversold) * 50  // Oversold = bullish
+    : technicalIndicators.rsi > rsi.overbought
+    ? 50 - ((technicalIndicators.rsi - rsi.overbought) / (100 - rsi.overbought)) * 50  // Overbought = bearish
+    : 50 + ((rsiHalfBand - Math.abs(technicalIndicators.rsi - rsiMid)) / rsiHalfBand) * 30; // Neutral zone
 
   // MACD Score
   const macdScore = technicalIndicators.macd.MACD > technicalIndicators.macd.signal
@@ -40,45 +50,53 @@ export function calculateMomentumScore(
     : 50 + (0.5 - bbPosition) * 100; // Middle range
 
   // Stochastic Score
-  const stochasticScore = technicalIndicators.stochastic.k < 20
+  const stochasticScore = technicalIndicators.stochastic.k < stochastic.oversold
     ? 100  // Oversold
-    : technicalIndicators.stochastic.k > 80
+    : technicalIndicators.stochastic.k > stochastic.overbought
     ? 0    // Overbought
-    : 50 + (50 - technicalIndicators.stochastic.k) * 0.625;
+    : 50 + ((stochastic.oversold + stochastic.overbought) / 2 - technicalIndicators.stochastic.k) * 0.625;
+
+  // Extended oscillators; they only count when weighted in the strategy
+  const mfiScore = oscillatorScore(technicalIndicators.mfi, strategy.indicators.mfi);
+  const cciScore = oscillatorScore(technicalIndicators.cci, strategy.indicators.cci);
+  const williamsRScore = oscillatorScore(technicalIndicators.williamsR, strategy.indicators.williamsR);
 
   // ADX Score (trend strength)
-  const adxScore = technicalIndicators.adx > 25
-    ? Math.min(100, 50 + (technicalIndicators.adx - 25) * 2)  // Strong trend
-    : technicalIndicators.adx * 2;  // Weak trend
+  const adxScore = technicalIndicators.adx > adx.trendThreshold
+    ? Math.min(100, 50 + (technicalIndicators.adx - adx.trendThreshold) * 2)  // Strong trend
+    : (technicalIndicators.adx / adx.trendThreshold) * 50;  // Weak trend
 
   // Price Momentum Score
-  const shortTermMomentum = ((currentPrice - price20DaysAgo) / price20DaysAgo) * 100;
-  const longTermMomentum = ((currentPrice - price50DaysAgo) / price50DaysAgo) * 100;
+  const shortTermMomentum = ((currentPrice - priceShortAgo) / priceShortAgo) * 100;
+  const longTermMomentum = ((currentPrice - priceLongAgo) / priceLongAgo) * 100;
 
   const shortTermScore = 50 + Math.min(50, Math.max(-50, shortTermMomentum * 5));
   const longTermScore = 50 + Math.min(50, Math.max(-50, longTermMomentum * 2));
 
   // Volume Score
-  const recentVolume = priceData.slice(-5).reduce((sum, d: any) => sum + (d.volume || 0), 0) / 5;
+  const recentVolume = priceData.slice(-5).reduce((sum, d) => sum + (d.volume || 0), 0) / 5;
   const volumeScore = recentVolume > technicalIndicators.volumeSMA
     ? 75  // Above average volume = bullish
     : 25; // Below average volume = bearish
 
   // Weighted combination
   const technicalScore = (
-    rsiScore * 0.15 +
-    macdScore * 0.20 +
-    smaScore * 0.20 +
-    bbScore * 0.10 +
-    stochasticScore * 0.10 +
-    adxScore * 0.10 +
-    volumeScore * 0.15
+    rsiScore * weights.rsi +
+    macdScore * weights.macd +
+    smaScore * weights.sma +
+    bbScore * weights.bollingerBands +
+    stochasticScore * weights.stochastic +
+    adxScore * weights.adx +
+    volumeScore * weights.volume +
+    mfiScore * weights.mfi +
+    cciScore * weights.cci +
+    williamsRScore * weights.williamsR
   );
 
   const overallScore = (
-    technicalScore * 0.6 +
-    shortTermScore * 0.25 +
-    longTermScore * 0.15
+    technicalScore * blend.technical +
+    shortTermScore * blend.shortTerm +
+    longTermScore * blend.longTerm
   );
 
   return {
@@ -93,3 +111,15 @@ export function calculateMomentumScore(
   };
 }
 
+// Oversold = 100, overbought = 0, linear from 80 to 20 across the neutral band
+function oscillatorScore(value: number, bands: { oversold: number; overbought: number }): number {
+  if (value < bands.oversold) {
+    return 100;
+  }
+  if (value > bands.overbought) {
+    return 0;
+  }
+  const mid = (bands.oversold + bands.overbought) / 2;
+  const halfBand = (bands.overbought - bands.oversold) / 2;
+  return 50 + ((mid - value) / halfBand) * 30;
+}
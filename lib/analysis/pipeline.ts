@@ -0,0 +1,299 @@
+import { Asset, AssetType, CorporateAction, DataQualityReport, IndianExchange, MarketRegime, PriceData, Quote, StrategyConfig, Timeframe } from '@/types';
+import { fetchFundamentals, fetchPriceHistory, fetchQuote } from '@/lib/data/providers';
+import { isReplayMode } from '@/lib/data/replay';
+import { calculateIndicatorSeries, calculateTechnicalIndicators } from '@/lib/analysis/technicalIndicators';
+import { calculateMomentumScore } from '@/lib/analysis/momentum';
+import { analyzeTrend } from '@/lib/analysis/trends';
+import { detectDivergences } from '@/lib/analysis/divergence';
+import { detectChartPatterns } from '@/lib/analysis/chartPatterns';
+import { detectCandlestickPatterns } from '@/lib/analysis/candlesticks';
+import { calculateSupportResistance } from '@/lib/analysis/supportResistance';
+import { BENCHMARKS, calculateRiskMetrics } from '@/lib/analysis/risk';
+import { calculateRelativeStrength } from '@/lib/analysis/relativeStrength';
+import { applyRegimeProfile, calculateBreadth, detectMarketRegime } from '@/lib/analysis/regime';
+import { analyzeFundamentals } from '@/lib/analysis/fundamentals';
+import { validatePriceData } from '@/lib/analysis/dataQuality';
+import { applyCorporateActions } from '@/lib/analysis/corporateActions';
+import { calculateOverallScore, getRecommendation, calculateConfidence } from '@/lib/utils/scoring';
+import { getMarketSession, getSessionCloseTime } from '@/lib/utils/marketCalendar';
+import { CRYPTO_QUOTE_CURRENCY } from '@/lib/data/coinGecko';
+import { DEFAULT_TIMEFRAME } from '@/lib/utils/timeframe';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+import { INDIAN_EXCHANGES, fromIndianListing, toIndianListing } from '@/lib/utils/exchanges';
+
+// Minimum history required before we attempt any analysis
+const MIN_DATA_POINTS: Record<AssetType, number> = {
+  us_stock: 20,
+  indian_stock: 30,
+  crypto: 50,
+};
+
+const QUOTE_TIMEOUT = 5000; // 5 seconds
+
+// Currency each market's bars are quoted in when the quote does not say
+const NATIVE_CURRENCY: Record<AssetType, string> = {
+  us_stock: 'USD',
+  indian_stock: 'INR',
+  crypto: CRYPTO_QUOTE_CURRENCY,
+};
+
+export interface PreparedHistory {
+  priceData: PriceData[]; // adjusted and validated
+  dataQuality: DataQualityReport;
+  corporateActions: CorporateAction[]; // actions inside the window
+  provider: string;
+}
+
+// Fetches bars for the timeframe, adjusts them for splits and dividends and
+// validates them. Throws when too little usable history is left.
+export async function loadPriceHistory(
+  assetType: AssetType,
+  symbol: string,
+  timeframe: Timeframe = DEFAULT_TIMEFRAME
+): Promise<PreparedHistory> {
+  const { interval, lookbackDays } = timeframe;
+  const history = await fetchPriceHistory(assetType, symbol, { lookbackDays, interval });
+  // Adjust for splits and dividends before validation, so a split is not mistaken for a crash
+  const adjusted = applyCorporateActions(history.data, history.corporateActions);
+  const { priceData, report: dataQuality } = validatePriceData(adjusted.priceData, assetType, interval);
+
+  console.log(`Loaded ${symbol} (${assetType}, ${interval}): ${priceData.length} bars from ${history.provider} (quality ${dataQuality.score.toFixed(0)})`);
+
+  if (priceData.length < MIN_DATA_POINTS[assetType]) {
+    throw new Error(`Insufficient data for ${symbol}: got ${priceData.length} points, need at least ${MIN_DATA_POINTS[assetType]}`);
+  }
+
+  return { priceData, dataQuality, corporateActions: adjusted.actions, provider: history.provider };
+}
+
+export async function analyzeAsset(
+  assetType: AssetType,
+  symbol: string,
+  name?: string,
+  timeframe: Timeframe = DEFAULT_TIMEFRAME,
+  strategy: StrategyConfig = DEFAULT_STRATEGY,
+  market?: MarketContext // list requests load it once; otherwise the regime comes from the benchmark alone
+): Promise<Asset> {
+  const { interval } = timeframe;
+  // The benchmark itself needs no second fetch
+  const isBenchmark = symbol.toLowerCase() === BENCHMARKS[assetType].symbol.toLowerCase();
+  const preloaded = market?.histories.get(symbol);
+  if (preloaded instanceof Error) {
+    throw preloaded;
+  }
+  const [history, quoteResult, fundamentalSnapshot, benchmarkData] = await Promise.all([
+    preloaded ?? loadPriceHistory(assetType, symbol, timeframe),
+    fetchQuoteWithTimeout(assetType, symbol),
+    fetchFundamentals(assetType, symbol),
+    isBenchmark ? null : market ? market.benchmarkData : loadBenchmarkHistory(assetType, symbol, timeframe),
+  ]);
+  const { priceData, dataQuality } = history;
+  const quote = quoteResult?.data ?? null;
+  const benchmarkBars = isBenchmark ? priceData : benchmarkData;
+
+  // The regime tilts the momentum and scoring weights
+  const marketRegime = market
+    ? market.regime
+    : benchmarkBars ? detectMarketRegime(benchmarkBars, assetType, interval, null, strategy.regime) : null;
+  const activeStrategy = applyRegimeProfile(strategy, marketRegime);
+
+  const indicatorSeries = calculateIndicatorSeries(priceData, strategy.indicators);
+  const technicalIndicators = calculateTechnicalIndicators(priceData, interval, indicatorSeries);
+  const momentum = calculateMomentumScore(technicalIndicators, priceData, assetType, interval, activeStrategy);
+  const divergences = detectDivergences(priceData, indicatorSeries, strategy.divergence);
+  const chartPatterns = detectChartPatterns(priceData, strategy.chartPatterns);
+  const trend = analyzeTrend(technicalIndicators, priceData, strategy, divergences, chartPatterns);
+  const candlestickPatterns = detectCandlestickPatterns(priceData, strategy.candlesticks);
+  const fundamentals = analyzeFundamentals(priceData, assetType, fundamentalSnapshot ?? undefined, interval);
+
+  // Use quote if available, otherwise calculate from historical data
+  const latestClose = priceData[priceData.length - 1].close;
+  const previousClose = priceData.length > 1 ? priceData[priceData.length - 2].close : latestClose;
+
+  const currentPrice = quote?.price || latestClose;
+  let priceChange = quote?.change ?? 0;
+  let priceChangePercent = quote?.changePercent ?? 0;
+
+  if (!quote && priceData.length > 1) {
+    priceChange = currentPrice - previousClose;
+    priceChangePercent = previousClose > 0 ? (priceChange / previousClose) * 100 : 0;
+  }
+
+  const supportResistance = calculateSupportResistance(priceData, currentPrice, strategy.supportResistance);
+  const risk = calculateRiskMetrics(priceData, assetType, interval, benchmarkBars, strategy.risk);
+  const relativeStrength = benchmarkBars
+    ? calculateRelativeStrength(priceData, benchmarkBars, assetType, strategy.relativeStrength)
+    : null;
+
+  const currency = quote?.currency?.toUpperCase() || NATIVE_CURRENCY[assetType];
+  // Indian listings report the bare ticker plus the exchange they were priced on
+  const listing = assetType === 'indian_stock' ? fromIndianListing(symbol) : null;
+  // Replays report the session as of the last recorded bar
+  const marketSession = getMarketSession(
+    assetType,
+    isReplayMode() ? getSessionCloseTime(priceData[priceData.length - 1].date, assetType) : undefined
+  );
+
+  const asset: Asset = {
+    symbol: listing?.symbol || quote?.symbol || (assetType === 'crypto' ? symbol.toUpperCase() : symbol),
+    name: name || listing?.symbol || symbol,
+    type: assetType,
+    exchange: listing?.exchange,
+    currentPrice,
+    priceChange,
+    priceChangePercent,
+    priceData: priceData.slice(-100), // Keep last 100 bars
+    technicalIndicators,
+    fundamentals,
+    trend,
+    momentum,
+    overallScore: 0, // Will be calculated
+    recommendation: 'hold',
+    confidence: 0, // Will be calculated
+    dataQuality,
+    corporateActions: history.corporateActions,
+    dataSource: {
+      history: history.provider,
+      quote: quoteResult?.provider,
+    },
+    timeframe,
+    marketSession: listing ? { ...marketSession, exchange: listing.exchange } : marketSession,
+    currency,
+    nativeCurrency: currency,
+    fxRate: 1,
+    strategy,
+    candlestickPatterns,
+    supportResistance,
+    risk,
+    relativeStrength,
+    // The echoed strategy stays the resolved one; the tilted weights are reported with the regime
+    regime: marketRegime && {
+      ...marketRegime,
+      weights: { momentum: activeStrategy.momentum.weights, scoring: activeStrategy.scoring.weights },
+    },
+  };
+
+  asset.overallScore = calculateOverallScore(asset);
+  asset.confidence = calculateConfidence(asset);
+  asset.recommendation = getRecommendation(asset.overallScore, asset.confidence, strategy.recommendation);
+
+  return asset;
+}
+
+// Indian scrips are analyzed on NSE unless an exchange is requested. A scrip
+// with no usable NSE data (BSE-only listings) falls back to BSE.
+export async function analyzeIndianStock(
+  symbol: string,
+  name?: string,
+  exchange?: IndianExchange,
+  timeframe: Timeframe = DEFAULT_TIMEFRAME,
+  strategy: StrategyConfig = DEFAULT_STRATEGY,
+  market?: MarketContext
+): Promise<Asset> {
+  const exchanges = exchange ? [exchange] : INDIAN_EXCHANGES;
+  let lastError: unknown = null;
+
+  for (const candidate of exchanges) {
+    try {
+      return await analyzeAsset('indian_stock', toIndianListing(symbol, candidate), name, timeframe, strategy, market);
+    } catch (error) {
+      lastError = error;
+      if (candidate !== exchanges[exchanges.length - 1]) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`No usable ${candidate} data for ${symbol}, falling back to the next exchange: ${errorMessage}`);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+// What a list request loads once and shares across its assets: the
+// benchmark, every symbol's prepared history (or the error loading it) and
+// the regime they imply. The benchmark's trend and volatility set the regime,
+// confirmed by the breadth of the symbols that loaded.
+export interface MarketContext {
+  regime: MarketRegime | null;
+  benchmarkData: PriceData[] | null;
+  histories: Map<string, PreparedHistory | Error>;
+}
+
+export async function loadMarketContext(
+  assetType: AssetType,
+  symbols: string[],
+  timeframe: Timeframe = DEFAULT_TIMEFRAME,
+  strategy: StrategyConfig = DEFAULT_STRATEGY
+): Promise<MarketContext> {
+  const benchmark = BENCHMARKS[assetType].symbol;
+  const histories = new Map<string, PreparedHistory | Error>();
+
+  // The benchmark first, so a list that includes it reuses its bars. Provider
+  // calls are paced by the shared rate limiter.
+  for (const symbol of [benchmark, ...symbols]) {
+    if (histories.has(symbol)) {
+      continue;
+    }
+    try {
+      histories.set(symbol, await loadPriceHistory(assetType, symbol, timeframe));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(symbol === benchmark
+        ? `No ${benchmark} history for the market regime: ${errorMessage}`
+        : `Leaving ${symbol} out of the ${assetType} breadth: ${errorMessage}`);
+      histories.set(symbol, error instanceof Error ? error : new Error(errorMessage));
+    }
+  }
+
+  const priceDataOf = (symbol: string) => {
+    const history = histories.get(symbol);
+    return history && !(history instanceof Error) ? history.priceData : null;
+  };
+  const benchmarkData = priceDataOf(benchmark);
+  const loaded = symbols.map(priceDataOf).filter((priceData): priceData is PriceData[] => priceData !== null);
+  const regime = benchmarkData
+    ? detectMarketRegime(benchmarkData, assetType, timeframe.interval, calculateBreadth(loaded, strategy.regime), strategy.regime)
+    : null;
+  if (regime) {
+    console.log(`Market regime for ${assetType}: ${regime.name} (breadth ${regime.breadth === null ? 'n/a' : `${(regime.breadth * 100).toFixed(0)}%`})`);
+  }
+  return { regime, benchmarkData, histories };
+}
+
+// Benchmark bars for beta, relative strength and the regime. Like quotes they
+// are optional: without them an asset only loses those. `requestedFor` labels
+// the warning.
+async function loadBenchmarkHistory(
+  assetType: AssetType,
+  requestedFor: string,
+  timeframe: Timeframe
+): Promise<PriceData[] | null> {
+  const benchmark = BENCHMARKS[assetType].symbol;
+  try {
+    const history = await loadPriceHistory(assetType, benchmark, timeframe);
+    return history.priceData;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`No ${benchmark} history for ${requestedFor}: ${errorMessage}`);
+    return null;
+  }
+}
+
+// Quotes are optional: a slow or failing quote must not block the analysis
+async function fetchQuoteWithTimeout(
+  assetType: AssetType,
+  symbol: string
+): Promise<{ data: Quote; provider: string } | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Quote request timeout')), QUOTE_TIMEOUT);
+    });
+    return await Promise.race([fetchQuote(assetType, symbol), timeoutPromise]);
+  } catch (error) {
+    // Quote failures are common; we fall back to historical data
+    return null;
+  } finally {
+    // A settled quote must not leave its timer keeping the process alive
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,35 @@
+import { Pivot, PriceData } from '@/types';
+
+// Swing highs and lows, oldest first. A bar is a swing high when its high is
+// above the `bars` bars before it and not below the `bars` bars after it
+// (ties go to the earlier bar); swing lows mirror that on the lows. The last
+// `bars` bars can never be confirmed.
+export function findSwingPivots(priceData: PriceData[], bars: number): Pivot[] {
+  const pivots: Pivot[] = [];
+
+  for (let i = bars; i < priceData.length - bars; i++) {
+    const { high, low, date } = priceData[i];
+    let isHigh = true;
+    let isLow = true;
+
+    for (let offset = 1; offset <= bars && (isHigh || isLow); offset++) {
+      const before = priceData[i - offset];
+      const after = priceData[i + offset];
+      if (before.high >= high || after.high > high) {
+        isHigh = false;
+      }
+      if (before.low <= low || after.low < low) {
+        isLow = false;
+      }
+    }
+
+    if (isHigh) {
+      pivots.push({ index: i, date, price: high, type: 'high' });
+    }
+    if (isLow) {
+      pivots.push({ index: i, date, price: low, type: 'low' });
+    }
+  }
+
+  return pivots;
+}
@@ -0,0 +1,132 @@
+import { AssetType, BarInterval, MarketRegime, MarketRegimeName, PriceData, StrategyConfig } from '@/types';
+import { BARS_PER_YEAR, BENCHMARKS } from '@/lib/analysis/risk';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+type RegimeConfig = StrategyConfig['regime'];
+
+export const REGIME_LABELS: Record<MarketRegimeName, string> = {
+  trending_up: 'trending up',
+  trending_down: 'trending down',
+  range_bound: 'range-bound',
+  high_volatility: 'high-volatility',
+  low_volatility: 'low-volatility',
+};
+
+function simpleAverage(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function returnDeviation(closes: number[]): number {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0) {
+      returns.push(closes[i] / closes[i - 1] - 1);
+    }
+  }
+  if (returns.length < 2) {
+    return 0;
+  }
+  const average = simpleAverage(returns);
+  return Math.sqrt(returns.reduce((sum, value) => sum + (value - average) ** 2, 0) / (returns.length - 1));
+}
+
+// Share of the histories whose last close is above their moving average.
+// Null when none is long enough to judge.
+export function calculateBreadth(histories: PriceData[][], config: RegimeConfig = DEFAULT_STRATEGY.regime): number | null {
+  const judged = histories.filter(bars => bars.length >= config.trendPeriod);
+  if (judged.length === 0) {
+    return null;
+  }
+  const above = judged.filter(bars => {
+    const average = simpleAverage(bars.slice(-config.trendPeriod).map(bar => bar.close));
+    return bars[bars.length - 1].close > average;
+  });
+  return above.length / judged.length;
+}
+
+// A volatility spike overrides everything else. Otherwise the benchmark's
+// moving-average slope sets the trend, which breadth, when known, must
+// confirm; an unconfirmed or flat market is range-bound, or low-volatility
+// when it is also unusually quiet. Null when the benchmark history is too short.
+export function detectMarketRegime(
+  benchmarkData: PriceData[],
+  assetType: AssetType,
+  interval: BarInterval = '1d',
+  breadth: number | null = null,
+  config: RegimeConfig = DEFAULT_STRATEGY.regime
+): MarketRegime | null {
+  if (benchmarkData.length < config.trendPeriod + config.slopeBars) {
+    return null;
+  }
+
+  const closes = benchmarkData.map(bar => bar.close);
+  const last = closes.length - 1;
+  const averageAt = (end: number) => simpleAverage(closes.slice(end - config.trendPeriod + 1, end + 1));
+  const average = averageAt(last);
+  const previousAverage = averageAt(last - config.slopeBars);
+  const slope = previousAverage > 0 ? average / previousAverage - 1 : 0;
+
+  let trend: MarketRegime['trend'] = 'sideways';
+  if (closes[last] > average && slope >= config.minSlope) {
+    trend = 'up';
+  } else if (closes[last] < average && slope <= -config.minSlope) {
+    trend = 'down';
+  }
+
+  const recentDeviation = returnDeviation(closes.slice(-(config.volatilityBars + 1)));
+  const windowDeviation = returnDeviation(closes);
+  const volatilityRatio = windowDeviation > 0 ? recentDeviation / windowDeviation : 1;
+
+  let name: MarketRegimeName;
+  if (volatilityRatio >= config.highVolatilityRatio) {
+    name = 'high_volatility';
+  } else if (trend === 'up' && (breadth === null || breadth >= config.minBreadth)) {
+    name = 'trending_up';
+  } else if (trend === 'down' && (breadth === null || breadth <= 1 - config.minBreadth)) {
+    name = 'trending_down';
+  } else if (volatilityRatio <= config.lowVolatilityRatio) {
+    name = 'low_volatility';
+  } else {
+    name = 'range_bound';
+  }
+
+  return {
+    name,
+    assetType,
+    benchmark: BENCHMARKS[assetType].symbol,
+    asOf: benchmarkData[last].date,
+    trend,
+    smaSlope: slope * 100,
+    volatility: recentDeviation * Math.sqrt(BARS_PER_YEAR[assetType][interval]) * 100,
+    volatilityRatio,
+    breadth,
+  };
+}
+
+function tiltWeights<T extends Record<string, number>>(weights: T, tilt: T): T {
+  const tilted = Object.fromEntries(
+    Object.entries(weights).map(([key, weight]) => [key, weight * (tilt[key] ?? 1)])
+  ) as Record<string, number>;
+  const total = Object.values(tilted).reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return weights; // a tilt that zeroes every weight is ignored
+  }
+  Object.keys(tilted).forEach(key => {
+    tilted[key] /= total;
+  });
+  return tilted as T;
+}
+
+// The strategy with its momentum and scoring weights tilted by the regime's
+// profile. Without a regime the strategy is returned unchanged.
+export function applyRegimeProfile(strategy: StrategyConfig, regime: MarketRegime | null): StrategyConfig {
+  if (!regime) {
+    return strategy;
+  }
+  const profile = strategy.regime.profiles[regime.name];
+  return {
+    ...strategy,
+    momentum: { ...strategy.momentum, weights: tiltWeights(strategy.momentum.weights, profile.momentum) },
+    scoring: { ...strategy.scoring, weights: tiltWeights(strategy.scoring.weights, profile.scoring) },
+  };
+}
@@ -0,0 +1,82 @@
+import { Asset, AssetType, PriceData, RelativeStrength, StrategyConfig } from '@/types';
+import { BENCHMARKS } from '@/lib/analysis/risk';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+// Same length as the priceData kept on the asset
+const LINE_BARS = 100;
+
+function percentChange(from: number, to: number): number {
+  return from > 0 ? ((to - from) / from) * 100 : 0;
+}
+
+// Compares the asset with its benchmark on the bars both have, so a stock's
+// sessions are not matched against a benchmark's weekend bars. The rating maps
+// excess returns the way momentum maps absolute ones: each short-term point
+// moves it 5, each long-term point 2, averaged.
+export function calculateRelativeStrength(
+  priceData: PriceData[],
+  benchmarkData: PriceData[],
+  assetType: AssetType,
+  config: StrategyConfig['relativeStrength'] = DEFAULT_STRATEGY.relativeStrength
+): RelativeStrength | null {
+  const benchmarkCloses = new Map(benchmarkData.map(bar => [bar.date, bar.close]));
+  const shared = priceData.filter(bar => bar.close > 0 && (benchmarkCloses.get(bar.date) ?? 0) > 0);
+  if (shared.length < 2) {
+    return null;
+  }
+
+  const ratios = shared.map(bar => bar.close / benchmarkCloses.get(bar.date)!);
+  const values = ratios.map(ratio => (ratio / ratios[0]) * 100);
+  const last = shared.length - 1;
+
+  const excessOver = (bars: number) => {
+    const start = Math.max(0, last - bars);
+    const assetReturn = percentChange(shared[start].close, shared[last].close);
+    const benchmarkReturn = percentChange(benchmarkCloses.get(shared[start].date)!, benchmarkCloses.get(shared[last].date)!);
+    return assetReturn - benchmarkReturn;
+  };
+  const shortTermExcess = excessOver(config.shortLookback);
+  const longTermExcess = excessOver(config.longLookback);
+
+  let mansfield: number | null = null;
+  if (values.length >= config.mansfieldPeriod) {
+    const average = values.slice(-config.mansfieldPeriod).reduce((sum, value) => sum + value, 0) / config.mansfieldPeriod;
+    mansfield = (values[last] / average - 1) * 100;
+  }
+
+  const shortTermScore = 50 + Math.min(50, Math.max(-50, shortTermExcess * 5));
+  const longTermScore = 50 + Math.min(50, Math.max(-50, longTermExcess * 2));
+
+  return {
+    benchmark: BENCHMARKS[assetType].symbol,
+    line: {
+      dates: shared.slice(-LINE_BARS).map(bar => bar.date),
+      values: values.slice(-LINE_BARS),
+    },
+    mansfield,
+    shortTermExcess,
+    longTermExcess,
+    rating: (shortTermScore + longTermScore) / 2,
+    rank: null,
+  };
+}
+
+// IBD-style rank: orders the assets analyzed together by their average excess
+// return and assigns percentiles from 1 (weakest) to 99 (strongest). Needs at
+// least two assets with relative strength.
+export function rankRelativeStrength(assets: Asset[]): void {
+  const ranked = assets
+    .filter(asset => asset.relativeStrength !== null)
+    .map(asset => ({
+      strength: asset.relativeStrength!,
+      performance: (asset.relativeStrength!.shortTermExcess + asset.relativeStrength!.longTermExcess) / 2,
+    }))
+    .sort((a, b) => a.performance - b.performance);
+  if (ranked.length < 2) {
+    return;
+  }
+
+  ranked.forEach(({ strength }, i) => {
+    strength.rank = Math.round(1 + (98 * i) / (ranked.length - 1));
+  });
+}
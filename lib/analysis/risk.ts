@@ -0,0 +1,124 @@
+import { AssetType, BarInterval, PriceData, RiskLevel, RiskMetrics, StrategyConfig } from '@/types';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+// Beta is measured against the broad market of each asset type. SPY tracks
+// the S&P 500 and is served by every US provider, unlike the index itself.
+export const BENCHMARKS: Record<AssetType, { symbol: string; name: string }> = {
+  us_stock: { symbol: 'SPY', name: 'S&P 500' },
+  indian_stock: { symbol: '^NSEI', name: 'NIFTY 50' },
+  crypto: { symbol: 'bitcoin', name: 'Bitcoin' },
+};
+
+// Bars in a trading year. Crypto trades around the clock; stock sessions are
+// 252 days of about 7 hourly bars, and the UTC-aligned 4-hour buckets split a
+// US session in two and an Indian one in three.
+export const BARS_PER_YEAR: Record<AssetType, Record<BarInterval, number>> = {
+  us_stock: { '1h': 252 * 7, '4h': 252 * 2, '1d': 252, '1wk': 52 },
+  indian_stock: { '1h': 252 * 7, '4h': 252 * 3, '1d': 252, '1wk': 52 },
+  crypto: { '1h': 365 * 24, '4h': 365 * 6, '1d': 365, '1wk': 52 },
+};
+
+// Fewer overlapping returns than this make beta meaningless
+const MIN_BETA_OBSERVATIONS = 20;
+
+// Annualized volatility bands, percent
+const RISK_LEVELS: [number, RiskLevel][] = [
+  [20, 'low'],
+  [40, 'moderate'],
+  [80, 'high'],
+];
+
+function toReturns(closes: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0) {
+      returns.push(closes[i] / closes[i - 1] - 1);
+    }
+  }
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Returns over the bars both series share, so a stock's trading days are not
+// compared with a benchmark's weekend bars
+function calculateBeta(priceData: PriceData[], benchmarkData: PriceData[]): number | null {
+  const benchmarkCloses = new Map(benchmarkData.map(bar => [bar.date, bar.close]));
+  const shared = priceData.filter(bar => benchmarkCloses.has(bar.date));
+  const assetReturns = toReturns(shared.map(bar => bar.close));
+  const benchmarkReturns = toReturns(shared.map(bar => benchmarkCloses.get(bar.date)!));
+  if (assetReturns.length < MIN_BETA_OBSERVATIONS || assetReturns.length !== benchmarkReturns.length) {
+    return null;
+  }
+
+  const assetMean = mean(assetReturns);
+  const benchmarkMean = mean(benchmarkReturns);
+  let covariance = 0;
+  let variance = 0;
+  assetReturns.forEach((assetReturn, i) => {
+    covariance += (assetReturn - assetMean) * (benchmarkReturns[i] - benchmarkMean);
+    variance += (benchmarkReturns[i] - benchmarkMean) ** 2;
+  });
+  return variance > 0 ? covariance / variance : null;
+}
+
+function calculateMaxDrawdown(closes: number[]): number {
+  let peak = closes[0];
+  let maxDrawdown = 0;
+  closes.forEach(close => {
+    peak = Math.max(peak, close);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - close) / peak);
+    }
+  });
+  return maxDrawdown * 100;
+}
+
+export function calculateRiskMetrics(
+  priceData: PriceData[],
+  assetType: AssetType,
+  interval: BarInterval = '1d',
+  benchmarkData: PriceData[] | null = null,
+  config: StrategyConfig['risk'] = DEFAULT_STRATEGY.risk
+): RiskMetrics {
+  const closes = priceData.map(bar => bar.close);
+  const returns = toReturns(closes);
+  const barsPerYear = BARS_PER_YEAR[assetType][interval];
+  const riskFreePerBar = config.riskFreeRate / barsPerYear;
+
+  const deviation = standardDeviation(returns);
+  const excessReturn = returns.length > 0 ? mean(returns) - riskFreePerBar : 0;
+  // Downside deviation counts every bar, with returns above the risk-free rate as zero
+  const downsideDeviation = returns.length > 0
+    ? Math.sqrt(mean(returns.map(value => Math.min(0, value - riskFreePerBar) ** 2)))
+    : 0;
+
+  const sorted = [...returns].sort((a, b) => a - b);
+  const varIndex = Math.floor((1 - config.varConfidence) * sorted.length);
+  const valueAtRisk = sorted.length > 0 ? Math.max(0, -sorted[varIndex] * 100) : 0;
+
+  return {
+    volatility: deviation * Math.sqrt(barsPerYear) * 100,
+    benchmark: BENCHMARKS[assetType].symbol,
+    beta: benchmarkData ? calculateBeta(priceData, benchmarkData) : null,
+    maxDrawdown: closes.length > 0 ? calculateMaxDrawdown(closes) : 0,
+    sharpeRatio: deviation > 0 ? (excessReturn / deviation) * Math.sqrt(barsPerYear) : null,
+    sortinoRatio: downsideDeviation > 0 ? (excessReturn / downsideDeviation) * Math.sqrt(barsPerYear) : null,
+    valueAtRisk,
+  };
+}
+
+export function getRiskLevel(volatility: number): RiskLevel {
+  const band = RISK_LEVELS.find(([ceiling]) => volatility < ceiling);
+  return band ? band[1] : 'very_high';
+}
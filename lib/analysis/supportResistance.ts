@@ -0,0 +1,169 @@
+import { FibonacciLevels, FloorPivots, PriceData, PriceLevel, StrategyConfig, SupportResistance } from '@/types';
+import { findSwingPivots } from '@/lib/analysis/pivots';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+type SupportResistanceConfig = StrategyConfig['supportResistance'];
+
+const FIBONACCI_RATIOS = [0.236, 0.382, 0.5, 0.618, 0.786];
+// A price bin holding this multiple of the average bin volume is a volume node
+const VOLUME_NODE_RATIO = 1.5;
+// Touches beyond this add no further strength
+const MAX_TOUCHES = 4;
+
+interface Candidate {
+  price: number;
+  source: 'swing' | 'volume';
+  index?: number; // bar of the swing pivot; volume nodes have none
+}
+
+// Volume profile over the window: each bar's volume goes to the bin holding
+// its typical price, and bins that peak well above the average become nodes
+function findVolumeNodes(bars: PriceData[], bins: number): Candidate[] {
+  const low = Math.min(...bars.map(bar => bar.low));
+  const high = Math.max(...bars.map(bar => bar.high));
+  const width = (high - low) / bins;
+  if (!(width > 0)) {
+    return [];
+  }
+
+  const volumes = new Array<number>(bins).fill(0);
+  bars.forEach(bar => {
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    volumes[Math.min(bins - 1, Math.floor((typical - low) / width))] += bar.volume;
+  });
+  const average = volumes.reduce((sum, volume) => sum + volume, 0) / bins;
+  if (average <= 0) {
+    return []; // no volume reported
+  }
+
+  const nodes: Candidate[] = [];
+  volumes.forEach((volume, bin) => {
+    const isPeak = volume >= (volumes[bin - 1] ?? 0) && volume >= (volumes[bin + 1] ?? 0);
+    if (isPeak && volume >= VOLUME_NODE_RATIO * average) {
+      nodes.push({ price: low + (bin + 0.5) * width, source: 'volume' });
+    }
+  });
+  return nodes;
+}
+
+// Sorted by price, each candidate joins the previous cluster while it stays
+// within the tolerance of that cluster's average
+function clusterCandidates(candidates: Candidate[], tolerance: number): Candidate[][] {
+  const clusters: Candidate[][] = [];
+  [...candidates].sort((a, b) => a.price - b.price).forEach(candidate => {
+    const current = clusters[clusters.length - 1];
+    const average = current ? current.reduce((sum, member) => sum + member.price, 0) / current.length : 0;
+    if (current && Math.abs(candidate.price - average) / average <= tolerance) {
+      current.push(candidate);
+    } else {
+      clusters.push([candidate]);
+    }
+  });
+  return clusters;
+}
+
+// Strength: up to 60 points for touches, 25 for a volume node and 15 for how
+// recently the level was tested
+function toLevel(
+  cluster: Candidate[],
+  currentPrice: number,
+  lastIndex: number,
+  window: number,
+  priceData: PriceData[]
+): PriceLevel {
+  const swings = cluster.filter(candidate => candidate.source === 'swing');
+  // Swing prices are where price actually turned, so they set the level when present
+  const members = swings.length > 0 ? swings : cluster;
+  const price = members.reduce((sum, member) => sum + member.price, 0) / members.length;
+  const volumeNode = cluster.some(candidate => candidate.source === 'volume');
+  const lastTouch = Math.max(...swings.map(swing => swing.index ?? 0));
+  const recency = swings.length > 0 ? Math.max(0, 1 - (lastIndex - lastTouch) / window) : 0;
+
+  return {
+    price,
+    type: price < currentPrice ? 'support' : 'resistance',
+    touches: swings.length,
+    volumeNode,
+    strength: (Math.min(swings.length, MAX_TOUCHES) / MAX_TOUCHES) * 60 + (volumeNode ? 25 : 0) + recency * 15,
+    lastTouchDate: swings.length > 0 ? priceData[lastTouch].date : undefined,
+    distancePercent: ((price - currentPrice) / currentPrice) * 100,
+  };
+}
+
+// Levels for the next bar from the latest one
+function calculateFloorPivots(bar: PriceData): FloorPivots {
+  const pivot = (bar.high + bar.low + bar.close) / 3;
+  const range = bar.high - bar.low;
+  return {
+    pivot,
+    r1: 2 * pivot - bar.low,
+    r2: pivot + range,
+    r3: bar.high + 2 * (pivot - bar.low),
+    s1: 2 * pivot - bar.high,
+    s2: pivot - range,
+    s3: bar.low - 2 * (bar.high - pivot),
+  };
+}
+
+// Retracements of the move between the window's highest high and lowest low,
+// measured back from whichever came last
+function calculateFibonacci(bars: PriceData[]): FibonacciLevels | null {
+  let highIndex = 0;
+  let lowIndex = 0;
+  bars.forEach((bar, i) => {
+    if (bar.high > bars[highIndex].high) highIndex = i;
+    if (bar.low < bars[lowIndex].low) lowIndex = i;
+  });
+  const highBar = bars[highIndex];
+  const lowBar = bars[lowIndex];
+  const range = highBar.high - lowBar.low;
+  if (!(range > 0)) {
+    return null;
+  }
+
+  const direction = lowIndex <= highIndex ? 'up' : 'down';
+  return {
+    direction,
+    swingHigh: { date: highBar.date, price: highBar.high },
+    swingLow: { date: lowBar.date, price: lowBar.low },
+    levels: FIBONACCI_RATIOS.map(ratio => ({
+      ratio,
+      price: direction === 'up' ? highBar.high - ratio * range : lowBar.low + ratio * range,
+    })),
+  };
+}
+
+// Clusters swing pivots and volume nodes over the window into ranked levels,
+// each labelled support or resistance against `currentPrice`
+export function calculateSupportResistance(
+  priceData: PriceData[],
+  currentPrice: number = priceData[priceData.length - 1].close,
+  config: SupportResistanceConfig = DEFAULT_STRATEGY.supportResistance
+): SupportResistance {
+  const windowStart = Math.max(0, priceData.length - config.window);
+  const bars = priceData.slice(windowStart);
+  const lastIndex = priceData.length - 1;
+
+  const candidates: Candidate[] = [
+    ...findSwingPivots(priceData, config.pivotBars)
+      .filter(pivot => pivot.index >= windowStart)
+      .map(pivot => ({ price: pivot.price, source: 'swing' as const, index: pivot.index })),
+    ...findVolumeNodes(bars, config.volumeBins),
+  ];
+
+  const levels = clusterCandidates(candidates, config.clusterTolerance)
+    .map(cluster => toLevel(cluster, currentPrice, lastIndex, config.window, priceData))
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, config.maxLevels);
+
+  const supports = levels.filter(level => level.type === 'support');
+  const resistances = levels.filter(level => level.type === 'resistance');
+
+  return {
+    levels,
+    nearestSupport: supports.reduce<PriceLevel | null>((best, level) => (!best || level.price > best.price ? level : best), null),
+    nearestResistance: resistances.reduce<PriceLevel | null>((best, level) => (!best || level.price < best.price ? level : best), null),
+    floorPivots: calculateFloorPivots(priceData[lastIndex]),
+    fibonacci: calculateFibonacci(bars),
+  };
+}
@@ -1,164 +1,244 @@
-import { RSI, MACD, SMA, EMA, BollingerBands, Stochastic, ADX } from 'technicalindicators';
-import { PriceData, TechnicalIndicators as TechnicalIndicatorsType } from '@/types';
+import {
+  RSI,
+  MACD,
+  SMA,
+  EMA,
+  BollingerBands,
+  Stochastic,
+  ADX,
+  ATR,
+  MFI,
+  CCI,
+  WilliamsR,
+  PSAR,
+  IchimokuCloud,
+  KeltnerChannels,
+} from 'technicalindicators';
+import { BarInterval, IndicatorSeries, PriceData, SeriesValues, StrategyConfig, TechnicalIndicators as TechnicalIndicatorsType } from '@/types';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+
+// technicalindicators drops the warm-up bars, so its output is right-aligned
+// against the input and padded with nulls at the front
+function alignSeries(values: (number | undefined)[], length: number): SeriesValues {
+  const padding: SeriesValues = new Array(Math.max(0, length - values.length)).fill(null);
+  return padding.concat(values.map(value => (typeof value === 'number' && isFinite(value) ? value : null)));
+}
 
-export function calculateTechnicalIndicators(priceData: PriceData[]): TechnicalIndicatorsType {
-  // Minimum data requirement: at least 50 points for basic indicators
-  // SMA200 needs 200 points, but we'll use fallbacks for shorter datasets
-  if (priceData.length < 50) {
-    throw new Error(`Insufficient data points. Need at least 50 days of data, got ${priceData.length}.`);
+// Moves a series `bars` bars later in time, e.g. Ichimoku spans plotted ahead
+function shiftForward(series: SeriesValues, bars: number): SeriesValues {
+  if (bars <= 0) {
+    return series;
   }
+  return (new Array(Math.min(bars, series.length)).fill(null) as SeriesValues).concat(series.slice(0, -bars));
+}
+
+function latest(series: SeriesValues): number | null {
+  return series.length > 0 ? series[series.length - 1] : null;
+}
 
-  // Extract arrays for calculations
+// Every period counts bars of the interval the data was fetched at: on weekly
+// bars SMA200 is the 200-week average, on hourly bars RSI(14) covers 14 hours
+export function calculateIndicatorSeries(
+  priceData: PriceData[],
+  config: StrategyConfig['indicators'] = DEFAULT_STRATEGY.indicators
+): IndicatorSeries {
+  const length = priceData.length;
   const closes = priceData.map(d => d.close);
   const highs = priceData.map(d => d.high);
   const lows = priceData.map(d => d.low);
   const volumes = priceData.map(d => d.volume);
 
-  // Calculate RSI (14 period)
-  const rsiValues = RSI.calculate({ values: closes, period: 14 });
-  const rsi = rsiValues && rsiValues.length > 0 ? rsiValues[rsiValues.length - 1] : 50;
+  const { rsi, macd, sma, ema, bollingerBands, stochastic, adx, volumeSma } = config;
+  const { atr, vwap, mfi, cci, williamsR, parabolicSar, ichimoku, keltnerChannels } = config;
 
-  // Calculate MACD
-  const macdInput = {
+  const macdValues = MACD.calculate({
     values: closes,
-    fastPeriod: 12,
-    slowPeriod: 26,
-    signalPeriod: 9,
+    fastPeriod: macd.fastPeriod,
+    slowPeriod: macd.slowPeriod,
+    signalPeriod: macd.signalPeriod,
     SimpleMAOscillator: false,
     SimpleMASignal: false,
-  };
-  const macdValues = MACD.calculate(macdInput);
-  const latestMacd = macdValues && macdValues.length > 0 ? macdValues[macdValues.length - 1] : {
-    MACD: 0,
-    signal: 0,
-    histogram: 0,
-  };
-
-  // Calculate Moving Averages
-  const sma20Values = priceData.length >= 20 ? SMA.calculate({ values: closes, period: 20 }) : null;
-  const sma50Values = priceData.length >= 50 ? SMA.calculate({ values: closes, period: 50 }) : null;
-  const sma200Values = priceData.length >= 200 ? SMA.calculate({ values: closes, period: 200 }) : null;
-
-  const sma20 = sma20Values && sma20Values.length > 0 ? sma20Values[sma20Values.length - 1] : closes[closes.length - 1];
-  const sma50 = sma50Values && sma50Values.length > 0 ? sma50Values[sma50Values.length - 1] : closes[closes.length - 1];
-  // For SMA200, use SMA50 or current price if not enough data
-  const sma200 = sma200Values && sma200Values.length > 0 
-    ? sma200Values[sma200Values.length - 1] 
-    : (sma50Values && sma50Values.length > 0 ? sma50Values[sma50Values.length - 1] : closes[closes.length - 1]);
-
-  // Calculate EMA
-  const ema12Values = EMA.calculate({ values: closes, period: 12 });
-  const ema26Values = EMA.calculate({ values: closes, period: 26 });
-
-  const ema12 = ema12Values && ema12Values.length > 0 ? ema12Values[ema12Values.length - 1] : closes[closes.length - 1];
-  const ema26 = ema26Values && ema26Values.length > 0 ? ema26Values[ema26Values.length - 1] : closes[closes.length - 1];
-
-  // Calculate Bollinger Bands
-  const bbInput = {
-    values: closes,
-    period: 20,
-    stdDev: 2,
-  };
-  const bbValues = BollingerBands.calculate(bbInput);
-  const latestBB = bbValues && bbValues.length > 0 ? bbValues[bbValues.length - 1] : {
-    upper: closes[closes.length - 1],
-    middle: closes[closes.length - 1],
-    lower: closes[closes.length - 1],
-  };
-
-  // Calculate Stochastic Oscillator
-  const stochasticInput = {
+  });
+  const bbValues = BollingerBands.calculate({ values: closes, period: bollingerBands.period, stdDev: bollingerBands.stdDev });
+  const stochasticValues = Stochastic.calculate({
     high: highs,
     low: lows,
     close: closes,
-    period: 14,
-    signalPeriod: 3,
-  };
-  const stochasticValues = Stochastic.calculate(stochasticInput);
-  const latestStochastic = stochasticValues && stochasticValues.length > 0 ? stochasticValues[stochasticValues.length - 1] : {
-    k: 50,
-    d: 50,
-  };
-
-  // Calculate ADX (Average Directional Index)
-  const adxInput = {
+    period: stochastic.period,
+    signalPeriod: stochastic.signalPeriod,
+  });
+  const adxValues = ADX.calculate({ high: highs, low: lows, close: closes, period: adx.period });
+  const ichimokuValues = IchimokuCloud.calculate({
+    high: highs,
+    low: lows,
+    conversionPeriod: ichimoku.conversionPeriod,
+    basePeriod: ichimoku.basePeriod,
+    spanPeriod: ichimoku.spanPeriod,
+    displacement: ichimoku.displacement,
+  });
+  const keltnerValues = KeltnerChannels.calculate({
     high: highs,
     low: lows,
     close: closes,
-    period: 14,
+    maPeriod: keltnerChannels.period,
+    atrPeriod: keltnerChannels.atrPeriod,
+    multiplier: keltnerChannels.multiplier,
+    useSMA: false,
+  });
+
+  return {
+    dates: priceData.map(d => d.date),
+    rsi: alignSeries(RSI.calculate({ values: closes, period: rsi.period }), length),
+    macd: {
+      MACD: alignSeries(macdValues.map(v => v.MACD), length),
+      signal: alignSeries(macdValues.map(v => v.signal), length),
+      histogram: alignSeries(macdValues.map(v => v.histogram), length),
+    },
+    sma: {
+      sma20: alignSeries(SMA.calculate({ values: closes, period: sma.shortPeriod }), length),
+      sma50: alignSeries(SMA.calculate({ values: closes, period: sma.mediumPeriod }), length),
+      sma200: alignSeries(SMA.calculate({ values: closes, period: sma.longPeriod }), length),
+    },
+    ema: {
+      ema12: alignSeries(EMA.calculate({ values: closes, period: ema.fastPeriod }), length),
+      ema26: alignSeries(EMA.calculate({ values: closes, period: ema.slowPeriod }), length),
+    },
+    bollingerBands: {
+      upper: alignSeries(bbValues.map(v => v.upper), length),
+      middle: alignSeries(bbValues.map(v => v.middle), length),
+      lower: alignSeries(bbValues.map(v => v.lower), length),
+    },
+    stochastic: {
+      k: alignSeries(stochasticValues.map(v => v.k), length),
+      d: alignSeries(stochasticValues.map(v => v.d), length),
+    },
+    adx: alignSeries(adxValues.map(v => v.adx), length),
+    obv: calculateOBVSeries(priceData),
+    volumeSMA: alignSeries(SMA.calculate({ values: volumes, period: volumeSma.period }), length),
+    atr: alignSeries(ATR.calculate({ high: highs, low: lows, close: closes, period: atr.period }), length),
+    vwap: calculateVWAPSeries(priceData, vwap.period),
+    mfi: alignSeries(MFI.calculate({ high: highs, low: lows, close: closes, volume: volumes, period: mfi.period }), length),
+    cci: alignSeries(CCI.calculate({ high: highs, low: lows, close: closes, period: cci.period }), length),
+    williamsR: alignSeries(WilliamsR.calculate({ high: highs, low: lows, close: closes, period: williamsR.period }), length),
+    parabolicSar: alignSeries(PSAR.calculate({ high: highs, low: lows, step: parabolicSar.step, max: parabolicSar.max }), length),
+    ichimoku: {
+      conversion: alignSeries(ichimokuValues.map(v => v.conversion), length),
+      base: alignSeries(ichimokuValues.map(v => v.base), length),
+      spanA: shiftForward(alignSeries(ichimokuValues.map(v => v.spanA), length), ichimoku.displacement),
+      spanB: shiftForward(alignSeries(ichimokuValues.map(v => v.spanB), length), ichimoku.displacement),
+    },
+    keltnerChannels: {
+      upper: alignSeries(keltnerValues.map(v => v.upper), length),
+      middle: alignSeries(keltnerValues.map(v => v.middle), length),
+      lower: alignSeries(keltnerValues.map(v => v.lower), length),
+    },
   };
-  const adxValues = ADX.calculate(adxInput);
-  const adx = adxValues && adxValues.length > 0 && adxValues[adxValues.length - 1]?.adx ? adxValues[adxValues.length - 1].adx : 25;
+}
 
-  // Calculate OBV (On-Balance Volume)
-  const obv = calculateOBV(priceData);
+// Latest value of every indicator, with neutral fallbacks where the history is
+// too short. Pass `series` when it has already been computed.
+export function calculateTechnicalIndicators(
+  priceData: PriceData[],
+  interval: BarInterval = '1d',
+  series: IndicatorSeries = calculateIndicatorSeries(priceData)
+): TechnicalIndicatorsType {
+  // Minimum data requirement: at least 50 points for basic indicators
+  // SMA200 needs 200 points, but we'll use fallbacks for shorter datasets
+  if (priceData.length < 50) {
+    throw new Error(`Insufficient data points. Need at least 50 ${interval} bars, got ${priceData.length}.`);
+  }
 
-  // Calculate Volume SMA
-  const volumeSMAValues = SMA.calculate({ values: volumes, period: 20 });
-  const volumeSMA = volumeSMAValues && volumeSMAValues.length > 0 ? volumeSMAValues[volumeSMAValues.length - 1] : volumes[volumes.length - 1];
+  const lastClose = priceData[priceData.length - 1].close;
+  const sma50 = latest(series.sma.sma50) ?? lastClose;
 
   return {
-    rsi,
+    rsi: latest(series.rsi) ?? 50,
     macd: {
-      MACD: latestMacd.MACD || 0,
-      signal: latestMacd.signal || 0,
-      histogram: latestMacd.histogram || 0,
+      MACD: latest(series.macd.MACD) ?? 0,
+      signal: latest(series.macd.signal) ?? 0,
+      histogram: latest(series.macd.histogram) ?? 0,
     },
     sma: {
-      sma20,
+      sma20: latest(series.sma.sma20) ?? lastClose,
       sma50,
-      sma200,
+      // For SMA200, use SMA50 or current price if not enough data
+      sma200: latest(series.sma.sma200) ?? sma50,
     },
     ema: {
-      ema12,
-      ema26,
+      ema12: latest(series.ema.ema12) ?? lastClose,
+      ema26: latest(series.ema.ema26) ?? lastClose,
     },
     bollingerBands: {
-      upper: latestBB.upper,
-      middle: latestBB.middle,
-      lower: latestBB.lower,
+      upper: latest(series.bollingerBands.upper) ?? lastClose,
+      middle: latest(series.bollingerBands.middle) ?? lastClose,
+      lower: latest(series.bollingerBands.lower) ?? lastClose,
     },
     stochastic: {
-      k: latestStochastic.k,
-      d: latestStochastic.d,
+      k: latest(series.stochastic.k) ?? 50,
+      d: latest(series.stochastic.d) ?? 50,
+    },
+    adx: latest(series.adx) || 25,
+    obv: latest(series.obv) ?? 0,
+    volumeSMA: latest(series.volumeSMA) ?? priceData[priceData.length - 1].volume,
+    atr: latest(series.atr) ?? 0,
+    vwap: latest(series.vwap) ?? lastClose,
+    mfi: latest(series.mfi) ?? 50,
+    cci: latest(series.cci) ?? 0,
+    williamsR: latest(series.williamsR) ?? -50,
+    parabolicSar: latest(series.parabolicSar) ?? lastClose,
+    ichimoku: {
+      conversion: latest(series.ichimoku.conversion) ?? lastClose,
+      base: latest(series.ichimoku.base) ?? lastClose,
+      spanA: latest(series.ichimoku.spanA) ?? lastClose,
+      spanB: latest(series.ichimoku.spanB) ?? lastClose,
+    },
+    keltnerChannels: {
+      upper: latest(series.keltnerChannels.upper) ?? lastClose,
+      middle: latest(series.keltnerChannels.middle) ?? lastClose,
+      lower: latest(series.keltnerChannels.lower) ?? lastClose,
     },
-    adx,
-    obv,
-    volumeSMA,
   };
 }
 
-function calculateOBV(priceData: PriceData[]): number {
-  let obv = 0;
-  for (let i = 1; i < priceData.length; i++) {
-    const currentClose = priceData[i].close;
-    const previousClose = priceData[i - 1].close;
-    const volume = priceData[i].volume;
-
-    if (currentClose > previousClose) {
-      obv += volume;
-    } else if (currentClose < previousClose) {
-      obv -= volume;
+// Rolling VWAP over the last `period` bars, weighted by typical price. A
+// session-anchored VWAP only makes sense intraday; the rolling form works on
+// every interval.
+function calculateVWAPSeries(priceData: PriceData[], period: number): SeriesValues {
+  const series: SeriesValues = [];
+  let weightedSum = 0;
+  let volumeSum = 0;
+  for (let i = 0; i < priceData.length; i++) {
+    const bar = priceData[i];
+    weightedSum += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volumeSum += bar.volume;
+    if (i >= period) {
+      const dropped = priceData[i - period];
+      weightedSum -= ((dropped.high + dropped.low + dropped.close) / 3) * dropped.volume;
+      volumeSum -= dropped.volume;
     }
-    // If close is same, OBV remains unchanged
+    series.push(i >= period - 1 && volumeSum > 0 ? weightedSum / volumeSum : null);
   }
-  return obv;
+  return series;
 }
 
-export function calculateSupportResistance(priceData: PriceData[]): {
-  support: number;
-  resistance: number;
-} {
-  const recentData = priceData.slice(-50); // Last 50 days
-  const lows = recentData.map(d => d.low);
-  const highs = recentData.map(d => d.high);
-
-  // Support is the minimum low in recent period
-  const support = Math.min(...lows);
-
-  // Resistance is the maximum high in recent period
-  const resistance = Math.max(...highs);
-
-  return { support, resistance };
+// Running On-Balance Volume, starting from zero at the first bar
+function calculateOBVSeries(priceData: PriceData[]): SeriesValues {
+  const series: SeriesValues = [];
+  let obv = 0;
+  for (let i = 0; i < priceData.length; i++) {
+    if (i > 0) {
+      const currentClose = priceData[i].close;
+      const previousClose = priceData[i - 1].close;
+      const volume = priceData[i].volume;
+
+      if (currentClose > previousClose) {
+        obv += volume;
+      } else if (currentClose < previousClose) {
+        obv -= volume;
+      }
+      // If close is same, OBV remains unchanged
+    }
+    series.push(obv);
+  }
+  return series;
 }
-
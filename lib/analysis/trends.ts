@@ -1,8 +1,13 @@
-import { TrendAnalysis, TechnicalIndicators, PriceData } from '@/types';
+import { ChartPattern, DivergenceEvent, TrendAnalysis, TechnicalIndicators, PriceData, StrategyConfig, TrendSignal } from '@/types';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+import { REVERSAL_PATTERNS } from '@/lib/analysis/chartPatterns';
 
 export function analyzeTrend(
   technicalIndicators: TechnicalIndicators,
-  priceData: PriceData[]
+  priceData: PriceData[],
+  strategy: StrategyConfig = DEFAULT_STRATEGY,
+  divergences: DivergenceEvent[] = [],
+  chartPatterns: ChartPattern[] = []
 ): TrendAnalysis {
   const currentPrice = priceData[priceData.length - 1].close;
   const { sma20, sma50, sma200 } = technicalIndicators.sma;
@@ -16,10 +21,11 @@ export function analyzeTrend(
   // Golden Cross / Death Cross detection
   let movingAverageCrossover: 'bullish' | 'bearish' | 'none' = 'none';
 
-  // Check for Golden Cross (EMA12 crosses above EMA26) or Death Cross
+  // Check for Golden Cross (fast EMA crosses above slow EMA) or Death Cross
   if (priceData.length >= 2) {
-    const prevEma12 = calculateEMA(priceData.slice(0, -1).map(d => d.close), 12);
-    const prevEma26 = calculateEMA(priceData.slice(0, -1).map(d => d.close), 26);
+    const { fastPeriod, slowPeriod } = strategy.indicators.ema;
+    const prevEma12 = calculateEMA(priceData.slice(0, -1).map(d => d.close), fastPeriod);
+    const prevEma26 = calculateEMA(priceData.slice(0, -1).map(d => d.close), slowPeriod);
     
     if (ema12 > ema26 && prevEma12 <= prevEma26) {
       movingAverageCrossover = 'bullish';
@@ -44,14 +50,51 @@ export function analyzeTrend(
     strength = 25;
   }
 
+  // Blend in how many trend-following systems confirm the direction
+  const systemSignals = getSystemSignals(currentPrice, technicalIndicators);
+  const { systemWeight } = strategy.trend;
+  if (systemWeight > 0 && direction !== 'sideways') {
+    const expected: TrendSignal = direction === 'uptrend' ? 'bullish' : 'bearish';
+    const signals = Object.values(systemSignals);
+    const agreement = (signals.filter(signal => signal === expected).length / signals.length) * 100;
+    strength = strength * (1 - systemWeight) + agreement * systemWeight;
+  }
+
   // Check for reversal signals
-  reversalSignal = detectReversal(priceData, technicalIndicators);
+  reversalSignal = detectReversal(direction, divergences, strategy.divergence) ||
+    hasRecentReversalPattern(direction, chartPatterns, priceData, strategy.chartPatterns.recentBars);
 
   return {
     direction,
     strength: Math.max(0, Math.min(100, strength)),
     reversalSignal,
     movingAverageCrossover,
+    divergences,
+    chartPatterns,
+    systemSignals,
+  };
+}
+
+function getSystemSignals(currentPrice: number, indicators: TechnicalIndicators): TrendAnalysis['systemSignals'] {
+  const { parabolicSar, ichimoku, keltnerChannels } = indicators;
+
+  // Ichimoku: price outside the cloud with the conversion line on the same side of the base line
+  const cloudTop = Math.max(ichimoku.spanA, ichimoku.spanB);
+  const cloudBottom = Math.min(ichimoku.spanA, ichimoku.spanB);
+  let ichimokuSignal: TrendSignal = 'neutral';
+  if (currentPrice > cloudTop && ichimoku.conversion > ichimoku.base) {
+    ichimokuSignal = 'bullish';
+  } else if (currentPrice < cloudBottom && ichimoku.conversion < ichimoku.base) {
+    ichimokuSignal = 'bearish';
+  }
+
+  return {
+    parabolicSar: currentPrice > parabolicSar ? 'bullish' : currentPrice < parabolicSar ? 'bearish' : 'neutral',
+    ichimoku: ichimokuSignal,
+    // A close outside the channel is a breakout in that direction
+    keltnerChannels: currentPrice > keltnerChannels.upper
+      ? 'bullish'
+      : currentPrice < keltnerChannels.lower ? 'bearish' : 'neutral',
   };
 }
 
@@ -80,26 +123,41 @@ function calculateTrendStrength(priceData: PriceData[], direction: 'up' | 'down'
   return strength;
 }
 
-function detectReversal(priceData: PriceData[], indicators: TechnicalIndicators): boolean {
-  // Check for divergence between price and RSI
-  const recentPrices = priceData.slice(-14).map(d => d.close);
-  const priceTrend = recentPrices[recentPrices.length - 1] > recentPrices[0] ? 'up' : 'down';
-
-  // RSI divergence (simplified check)
-  const rsiOverbought = indicators.rsi > 70;
-  const rsiOversold = indicators.rsi < 30;
-
-  // Potential reversal: price making new highs but RSI not confirming
-  if (priceTrend === 'up' && rsiOverbought && indicators.macd.histogram < 0) {
-    return true;
-  }
-
-  // Potential reversal: price making new lows but RSI not confirming
-  if (priceTrend === 'down' && rsiOversold && indicators.macd.histogram > 0) {
-    return true;
-  }
+// A reversal needs a recent, strong enough classic divergence pointing against
+// the trend; without a trend, any direction counts. Hidden divergences signal
+// continuation and never flag a reversal.
+function detectReversal(
+  direction: TrendAnalysis['direction'],
+  divergences: DivergenceEvent[],
+  config: StrategyConfig['divergence']
+): boolean {
+  return divergences.some(event =>
+    event.kind === 'classic' &&
+    event.barsAgo <= config.recentBars &&
+    event.strength >= config.minStrength &&
+    (direction === 'sideways' ||
+      (direction === 'uptrend' && event.direction === 'bearish') ||
+      (direction === 'downtrend' && event.direction === 'bullish'))
+  );
+}
 
-  return false;
+// A top or bottom pattern against the trend whose neckline broke recently
+function hasRecentReversalPattern(
+  direction: TrendAnalysis['direction'],
+  chartPatterns: ChartPattern[],
+  priceData: PriceData[],
+  recentBars: number
+): boolean {
+  const recentDates = new Set(priceData.slice(-(recentBars + 1)).map(d => d.date));
+  return chartPatterns.some(pattern =>
+    REVERSAL_PATTERNS.includes(pattern.pattern) &&
+    pattern.status === 'confirmed' &&
+    pattern.breakoutDate !== undefined &&
+    recentDates.has(pattern.breakoutDate) &&
+    (direction === 'sideways' ||
+      (direction === 'uptrend' && pattern.bias === 'bearish') ||
+      (direction === 'downtrend' && pattern.bias === 'bullish'))
+  );
 }
 
 function calculateEMA(values: number[], period: number): number {
@@ -1,5 +1,8 @@
 import axios from 'axios';
-import { PriceData } from '@/types';
+import { scheduleRequest } from '@/lib/data/rateLimiter';
+import { getBarKey, resampleBars } from '@/lib/data/resample';
+import { INTERVAL_MS, isIntraday } from '@/lib/utils/timeframe';
+import { AssetMetadata, BarInterval, FundamentalSnapshot, HistoryOptions, MarketDataProvider, PriceData, Quote } from '@/types';
 
 const API_KEY = process.env.COINGECKO_API_KEY;
 // CoinGecko Demo API Configuration
@@ -8,94 +11,129 @@ const API_KEY = process.env.COINGECKO_API_KEY;
 // Rate Limits: 30 calls/minute, 10,000 calls/month
 // Documentation: https://support.coingecko.com/hc/en-us/articles/21880397454233
 const BASE_URL = 'https://api.coingecko.com/api/v3';
+// Currency CoinGecko prices coins in; display conversion happens later (lib/data/fx.ts)
+const VS_CURRENCY = (process.env.COINGECKO_VS_CURRENCY || 'usd').toLowerCase();
+export const CRYPTO_QUOTE_CURRENCY = VS_CURRENCY.toUpperCase();
 
-// Simple in-memory cache
-const cache = new Map<string, { data: PriceData[]; timestamp: number }>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+// market_chart/range returns hourly samples for windows of up to 90 days and
+// daily ones beyond. Intraday histories are fetched in 90-day hourly chunks;
+// daily and weekly ones take hourly detail for the last 90 days only.
+const HOURLY_CHUNK_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
 
-interface CoinGeckoOHLCResponse {
-  [index: number]: [number, number, number, number, number]; // [timestamp, open, high, low, close]
+interface CoinGeckoMarketChartResponse {
+  prices: [number, number][]; // [timestamp, price]
+  total_volumes: [number, number][]; // [timestamp, rolling 24h volume]
 }
 
-export async function fetchCryptoData(coinId: string, days: number = 365): Promise<PriceData[]> {
-  const cacheKey = `crypto_${coinId}_${days}`;
-  const cached = cache.get(cacheKey);
-  
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data;
+// Buckets hourly samples into UTC candles. Volume is CoinGecko's rolling 24h
+// total, so the last sample of each day is that day's volume; intraday candles
+// get the matching fraction of it, and weekly candles sum their days.
+export function buildCandles(
+  prices: [number, number][],
+  volumes: [number, number][],
+  interval: BarInterval = '1d'
+): PriceData[] {
+  if (interval === '1wk') {
+    return resampleBars(buildCandles(prices, volumes, '1d'), '1wk');
   }
 
-  try {
-    // CoinGecko Demo API uses 'x-cg-demo-api-key' header
-    const headers = API_KEY ? { 'x-cg-demo-api-key': API_KEY } : {};
-    
-    const response = await axios.get<CoinGeckoOHLCResponse>(
-      `${BASE_URL}/coins/${coinId}/ohlc`,
-      {
-        params: {
-          vs_currency: 'usd',
-          days: days,
-        },
-        headers,
+  const candles = new Map<string, PriceData>();
+  const volumeShare = isIntraday(interval) ? INTERVAL_MS[interval] / DAY_MS : 1;
+
+  [...prices]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([timestamp, price]) => {
+      if (!(price > 0)) {
+        return;
       }
-    );
-
-    const ohlcData = response.data;
-    if (!ohlcData || !Array.isArray(ohlcData)) {
-      console.error(`Invalid OHLC response for ${coinId}:`, {
-        type: typeof ohlcData,
-        isArray: Array.isArray(ohlcData),
-        data: ohlcData,
-      });
-      throw new Error(`No data available for this cryptocurrency: ${coinId}. Response was not an array.`);
-    }
-    
-    if (ohlcData.length === 0) {
-      throw new Error(`Empty OHLC data returned for ${coinId}`);
-    }
+      const date = getBarKey(timestamp, interval);
+      const candle = candles.get(date);
+      if (!candle) {
+        candles.set(date, { date, open: price, high: price, low: price, close: price, volume: 0 });
+      } else {
+        candle.high = Math.max(candle.high, price);
+        candle.low = Math.min(candle.low, price);
+        candle.close = price;
+      }
+    });
 
-    // Fetch volume data separately
-    const marketDataResponse = await axios.get(
-      `${BASE_URL}/coins/${coinId}/market_chart`,
-      {
-        params: {
-          vs_currency: 'usd',
-          days: days,
-        },
-        headers,
+  [...volumes]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([timestamp, volume]) => {
+      const candle = candles.get(getBarKey(timestamp, interval));
+      if (candle) {
+        candle.volume = volume * volumeShare;
       }
-    );
-
-    const volumes = marketDataResponse.data.total_volumes || [];
-    const volumeMap = new Map<number, number>();
-    volumes.forEach(([timestamp, volume]: [number, number]) => {
-      const date = new Date(timestamp);
-      date.setHours(0, 0, 0, 0);
-      volumeMap.set(date.getTime(), volume);
     });
 
-    const priceData: PriceData[] = ohlcData.map(([timestamp, open, high, low, close]) => {
-      const date = new Date(timestamp);
-      date.setHours(0, 0, 0, 0);
-      const volume = volumeMap.get(date.getTime()) || 0;
+  return Array.from(candles.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
 
-      return {
-        date: date.toISOString().split('T')[0],
-        open,
-        high,
-        low,
-        close,
-        volume,
-      };
-    }).filter((data: PriceData) => data.close > 0);
+async function fetchMarketChartRange(coinId: string, from: number, to: number): Promise<CoinGeckoMarketChartResponse> {
+  // CoinGecko Demo API uses 'x-cg-demo-api-key' header
+  const headers = API_KEY ? { 'x-cg-demo-api-key': API_KEY } : {};
+  const response = await scheduleRequest('coingecko', () => axios.get<CoinGeckoMarketChartResponse>(
+    `${BASE_URL}/coins/${coinId}/market_chart/range`,
+    {
+      params: {
+        vs_currency: VS_CURRENCY,
+        from: Math.floor(from / 1000),
+        to: Math.floor(to / 1000),
+      },
+      headers,
+    }
+  ));
+
+  if (!response.data || !Array.isArray(response.data.prices)) {
+    console.error(`Invalid market chart response for ${coinId}:`, response.data);
+    throw new Error(`No data available for this cryptocurrency: ${coinId}. Response had no price series.`);
+  }
+  return { prices: response.data.prices, total_volumes: response.data.total_volumes || [] };
+}
+
+export async function fetchCryptoData(coinId: string, options: HistoryOptions = {}): Promise<PriceData[]> {
+  const to = Date.now();
+  const from = options.from
+    ? new Date(options.from).getTime()
+    : to - (options.lookbackDays ?? 365) * DAY_MS;
+  const interval = options.interval ?? '1d';
+
+  try {
+    const prices: [number, number][] = [];
+    const volumes: [number, number][] = [];
+
+    // Days older than the hourly window come from one daily-granularity call,
+    // so a year costs two calls instead of five. Their candles are close-only:
+    // each 00:00 UTC sample, shifted back an hour, closes the day before.
+    const hourlyFrom = isIntraday(interval) ? from : Math.max(from, to - HOURLY_CHUNK_DAYS * DAY_MS);
+    if (hourlyFrom > from) {
+      const older = await fetchMarketChartRange(coinId, from, hourlyFrom);
+      prices.push(...older.prices.map(([timestamp, price]): [number, number] => [timestamp - HOUR_MS, price]));
+      volumes.push(...older.total_volumes.map(([timestamp, volume]): [number, number] => [timestamp - HOUR_MS, volume]));
+    }
+
+    for (let chunkStart = hourlyFrom; chunkStart < to; chunkStart += HOURLY_CHUNK_DAYS * DAY_MS) {
+      const chunkEnd = Math.min(to, chunkStart + HOURLY_CHUNK_DAYS * DAY_MS);
+      const chunk = await fetchMarketChartRange(coinId, chunkStart, chunkEnd);
+      prices.push(...chunk.prices);
+      volumes.push(...chunk.total_volumes);
+    }
+
+    if (prices.length === 0) {
+      throw new Error(`Empty market chart data returned for ${coinId}`);
+    }
+
+    const priceData = buildCandles(prices, volumes, interval)
+      .filter(data => !options.from || data.date >= options.from);
+
+    console.log(`Fetched ${priceData.length} ${interval} candles for ${coinId} from ${prices.length} price samples`);
 
-    console.log(`Fetched ${priceData.length} data points for ${coinId} (requested ${days} days, got ${ohlcData.length} OHLC points)`);
-    
     if (priceData.length === 0) {
       throw new Error(`No valid price data returned for ${coinId}`);
     }
 
-    cache.set(cacheKey, { data: priceData, timestamp: Date.now() });
     return priceData;
   } catch (error: any) {
     // Handle rate limit errors (429)
@@ -108,38 +146,33 @@ export async function fetchCryptoData(coinId: string, days: number = 365): Promi
   }
 }
 
-export async function getCryptoQuote(coinId: string): Promise<{
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-}> {
+export async function getCryptoQuote(coinId: string): Promise<Quote> {
   try {
     // CoinGecko Demo API uses 'x-cg-demo-api-key' header
     const headers = API_KEY ? { 'x-cg-demo-api-key': API_KEY } : {};
     
     // Try the simple/price endpoint first
     try {
-      const response = await axios.get(
+      const response = await scheduleRequest('coingecko', () => axios.get(
         `${BASE_URL}/simple/price`,
         {
           params: {
             ids: coinId,
-            vs_currencies: 'usd',
+            vs_currencies: VS_CURRENCY,
             include_24hr_change: true,
           },
           headers,
           timeout: 10000, // 10 second timeout
         }
-      );
+      ));
 
       const data = response.data[coinId];
-      if (!data || !data.usd) {
+      if (!data || !data[VS_CURRENCY]) {
         throw new Error('No quote data available');
       }
 
-      const price = data.usd;
-      const changePercent = data.usd_24h_change || 0;
+      const price = data[VS_CURRENCY];
+      const changePercent = data[`${VS_CURRENCY}_24h_change`] || 0;
       const change = (price * changePercent) / 100;
 
       return {
@@ -147,12 +180,13 @@ export async function getCryptoQuote(coinId: string): Promise<{
         price,
         change,
         changePercent,
+        currency: CRYPTO_QUOTE_CURRENCY,
       };
     } catch (simplePriceError: any) {
       // If simple/price fails, try using the market data endpoint as fallback
       console.warn(`Simple price endpoint failed for ${coinId}, trying market data endpoint...`);
       
-      const marketResponse = await axios.get(
+      const marketResponse = await scheduleRequest('coingecko', () => axios.get(
         `${BASE_URL}/coins/${coinId}`,
         {
           params: {
@@ -166,14 +200,14 @@ export async function getCryptoQuote(coinId: string): Promise<{
           headers,
           timeout: 10000,
         }
-      );
+      ));
 
       const marketData = marketResponse.data.market_data;
-      if (!marketData || !marketData.current_price?.usd) {
+      if (!marketData || !marketData.current_price?.[VS_CURRENCY]) {
         throw new Error('No market data available');
       }
 
-      const price = marketData.current_price.usd;
+      const price = marketData.current_price[VS_CURRENCY];
       const changePercent = marketData.price_change_percentage_24h || 0;
       const change = (price * changePercent) / 100;
 
@@ -182,6 +216,7 @@ export async function getCryptoQuote(coinId: string): Promise<{
         price,
         change,
         changePercent,
+        currency: CRYPTO_QUOTE_CURRENCY,
       };
     }
   } catch (error: any) {
@@ -205,31 +240,153 @@ export async function getCryptoQuote(coinId: string): Promise<{
   }
 }
 
-// Helper function to get coin ID from symbol
-export async function getCoinIdFromSymbol(symbol: string): Promise<string> {
-  try {
-    // CoinGecko Demo API uses 'x-cg-demo-api-key' header
-    const headers = API_KEY ? { 'x-cg-demo-api-key': API_KEY } : {};
-    
-    const response = await axios.get(
+export interface CoinListEntry {
+  id: string;
+  symbol: string;
+  name: string;
+  rank?: number; // market-cap rank; only the top coins have one
+}
+
+// Every coin CoinGecko knows about, with the market-cap rank of the top 250.
+// Thousands of coins share tickers, so the rank is what tells BTC from its clones.
+export async function fetchCoinList(): Promise<CoinListEntry[]> {
+  const headers = API_KEY ? { 'x-cg-demo-api-key': API_KEY } : {};
+
+  const [listResponse, marketsResponse] = await Promise.all([
+    scheduleRequest('coingecko', () => axios.get<{ id: string; symbol: string; name: string }[]>(
       `${BASE_URL}/coins/list`,
+      { headers }
+    )),
+    scheduleRequest('coingecko', () => axios.get<{ id: string; market_cap_rank: number | null }[]>(
+      `${BASE_URL}/coins/markets`,
       {
+        params: {
+          vs_currency: VS_CURRENCY,
+          order: 'market_cap_desc',
+          per_page: 250,
+          page: 1,
+        },
         headers,
       }
-    );
+    )),
+  ]);
 
-    const coin = response.data.find(
-      (c: { symbol: string }) => c.symbol.toLowerCase() === symbol.toLowerCase()
-    );
+  if (!Array.isArray(listResponse.data)) {
+    throw new Error('Invalid coin list response from CoinGecko');
+  }
 
-    return coin ? coin.id : symbol;
-  } catch (error: any) {
-    // Handle rate limit errors (429)
-    if (error.response?.status === 429) {
-      console.error(`Rate limit exceeded. CoinGecko Demo API: 30 calls/minute, 10,000/month`);
+  const ranks = new Map<string, number>();
+  (marketsResponse.data || []).forEach(coin => {
+    if (coin.market_cap_rank) {
+      ranks.set(coin.id, coin.market_cap_rank);
     }
-    console.error(`Error getting coin ID for ${symbol}:`, error);
-    return symbol;
+  });
+
+  return listResponse.data.map(coin => ({
+    id: coin.id,
+    symbol: coin.symbol.toUpperCase(),
+    name: coin.name,
+    rank: ranks.get(coin.id),
+  }));
+}
+
+export async function getCryptoMetadata(coinId: string): Promise<AssetMetadata> {
+  const headers = API_KEY ? { 'x-cg-demo-api-key': API_KEY } : {};
+
+  const response = await scheduleRequest('coingecko', () => axios.get(
+    `${BASE_URL}/coins/${coinId}`,
+    {
+      params: {
+        localization: false,
+        tickers: false,
+        market_data: false,
+        community_data: false,
+        developer_data: false,
+        sparkline: false,
+      },
+      headers,
+      timeout: 10000,
+    }
+  ));
+
+  if (!response.data || !response.data.name) {
+    throw new Error(`No metadata available for ${coinId}`);
   }
+
+  return {
+    symbol: (response.data.symbol || coinId).toUpperCase(),
+    name: response.data.name,
+    currency: CRYPTO_QUOTE_CURRENCY,
+  };
+}
+
+const positiveOrUndefined = (value: unknown) =>
+  typeof value === 'number' && isFinite(value) && value > 0 ? value : undefined;
+
+export async function getCryptoFundamentals(coinId: string): Promise<FundamentalSnapshot> {
+  const headers = API_KEY ? { 'x-cg-demo-api-key': API_KEY } : {};
+
+  const response = await scheduleRequest('coingecko', () => axios.get(
+    `${BASE_URL}/coins/${coinId}`,
+    {
+      params: {
+        localization: false,
+        tickers: false,
+        market_data: true,
+        community_data: false,
+        developer_data: false,
+        sparkline: false,
+      },
+      headers,
+      timeout: 10000,
+    }
+  ));
+
+  const marketData = response.data?.market_data;
+  if (!marketData) {
+    throw new Error(`No market data available for ${coinId}`);
+  }
+
+  const marketCap = positiveOrUndefined(marketData.market_cap?.[VS_CURRENCY]);
+  const fullyDilutedValuation = positiveOrUndefined(marketData.fully_diluted_valuation?.[VS_CURRENCY]);
+  const volume = positiveOrUndefined(marketData.total_volume?.[VS_CURRENCY]);
+
+  return {
+    marketCap,
+    crypto: {
+      marketCapRank: positiveOrUndefined(response.data.market_cap_rank ?? marketData.market_cap_rank),
+      circulatingSupply: positiveOrUndefined(marketData.circulating_supply),
+      totalSupply: positiveOrUndefined(marketData.total_supply),
+      maxSupply: positiveOrUndefined(marketData.max_supply),
+      fullyDilutedValuation,
+      fdvToMarketCap: marketCap && fullyDilutedValuation ? fullyDilutedValuation / marketCap : undefined,
+      volumeToMarketCap: marketCap && volume ? volume / marketCap : undefined,
+      allTimeHigh: positiveOrUndefined(marketData.ath?.[VS_CURRENCY]),
+      allTimeHighDate: marketData.ath_date?.[VS_CURRENCY] ? String(marketData.ath_date[VS_CURRENCY]).split('T')[0] : undefined,
+      athChangePercent: typeof marketData.ath_change_percentage?.[VS_CURRENCY] === 'number'
+        ? marketData.ath_change_percentage[VS_CURRENCY]
+        : undefined,
+    },
+  };
 }
 
+export const coinGeckoProvider: MarketDataProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  capabilities: {
+    assetTypes: ['crypto'],
+    history: true,
+    quote: true,
+    metadata: true,
+    corporateActions: false,
+    fundamentals: true,
+    intervals: ['1h', '4h', '1d', '1wk'],
+    maxLookbackDays: 365, // Demo API history limit
+  },
+  isAvailable: () => true,
+  getHistory: (coinId: string, _assetType, options?: HistoryOptions) =>
+    fetchCryptoData(coinId, options),
+  getQuote: (coinId: string) => getCryptoQuote(coinId),
+  getMetadata: (coinId: string) => getCryptoMetadata(coinId),
+  getFundamentals: (coinId: string) => getCryptoFundamentals(coinId),
+};
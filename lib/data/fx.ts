@@ -0,0 +1,194 @@
+import axios from 'axios';
+import { Asset, PriceLevel } from '@/types';
+import { scheduleRequest } from '@/lib/data/rateLimiter';
+import { isReplayMode } from '@/lib/data/replay';
+
+// FX rates come from Frankfurter (ECB reference rates, no API key).
+// Set FX_RATES to stub them locally, as units per USD:
+//   FX_RATES="USD=1,INR=83.2,EUR=0.92"
+// Replay mode never calls out, so it requires the stub.
+const FX_BASE_URL = 'https://api.frankfurter.app';
+// ECB publishes once per working day
+const FX_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+const rateCache = new Map<string, { rate: number; fetchedAt: number }>();
+
+function parseStubRates(): Record<string, number> | null {
+  const stub = process.env.FX_RATES;
+  if (!stub) {
+    return null;
+  }
+
+  const rates: Record<string, number> = {};
+  stub.split(',').forEach(pair => {
+    const [code, value] = pair.split('=').map(part => part.trim());
+    const rate = Number(value);
+    if (code && rate > 0) {
+      rates[code.toUpperCase()] = rate;
+    }
+  });
+  return rates;
+}
+
+// Units of `to` per unit of `from`
+export async function getFxRate(from: string, to: string): Promise<number> {
+  if (from === to) {
+    return 1;
+  }
+
+  const stubRates = parseStubRates();
+  if (stubRates) {
+    const fromPerUsd = from === 'USD' ? 1 : stubRates[from];
+    const toPerUsd = to === 'USD' ? 1 : stubRates[to];
+    if (!fromPerUsd || !toPerUsd) {
+      throw new Error(`FX_RATES has no rate for ${!fromPerUsd ? from : to}`);
+    }
+    return toPerUsd / fromPerUsd;
+  }
+
+  if (isReplayMode()) {
+    throw new Error('FX rates are unavailable in replay mode; set FX_RATES to stub them');
+  }
+
+  const key = `${from}_${to}`;
+  const cached = rateCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < FX_CACHE_TTL) {
+    return cached.rate;
+  }
+
+  const response = await scheduleRequest('frankfurter', () => axios.get(`${FX_BASE_URL}/latest`, {
+    params: { from, to },
+    timeout: 10000,
+  }));
+
+  const rate = response.data?.rates?.[to];
+  if (typeof rate !== 'number' || !(rate > 0)) {
+    throw new Error(`No FX rate returned for ${from}/${to}`);
+  }
+
+  rateCache.set(key, { rate, fetchedAt: Date.now() });
+  return rate;
+}
+
+// Re-expresses every price-denominated field of an asset in another currency.
+// Scores, percentages and volumes are currency-neutral and left untouched.
+export function convertAsset(asset: Asset, currency: string, rate: number): Asset {
+  const scale = (value: number) => value * rate;
+  const { technicalIndicators: ti, fundamentals, supportResistance: sr } = asset;
+  const scaleLevel = (level: PriceLevel | null) => level && { ...level, price: scale(level.price) };
+
+  return {
+    ...asset,
+    currency,
+    fxRate: asset.fxRate * rate,
+    currentPrice: scale(asset.currentPrice),
+    priceChange: scale(asset.priceChange),
+    priceData: asset.priceData.map(bar => ({
+      ...bar,
+      open: scale(bar.open),
+      high: scale(bar.high),
+      low: scale(bar.low),
+      close: scale(bar.close),
+    })),
+    corporateActions: asset.corporateActions.map(action =>
+      action.amount !== undefined ? { ...action, amount: scale(action.amount) } : action
+    ),
+    technicalIndicators: {
+      ...ti,
+      macd: { MACD: scale(ti.macd.MACD), signal: scale(ti.macd.signal), histogram: scale(ti.macd.histogram) },
+      sma: { sma20: scale(ti.sma.sma20), sma50: scale(ti.sma.sma50), sma200: scale(ti.sma.sma200) },
+      ema: { ema12: scale(ti.ema.ema12), ema26: scale(ti.ema.ema26) },
+      bollingerBands: {
+        upper: scale(ti.bollingerBands.upper),
+        middle: scale(ti.bollingerBands.middle),
+        lower: scale(ti.bollingerBands.lower),
+      },
+      atr: scale(ti.atr),
+      vwap: scale(ti.vwap),
+      parabolicSar: scale(ti.parabolicSar),
+      ichimoku: {
+        conversion: scale(ti.ichimoku.conversion),
+        base: scale(ti.ichimoku.base),
+        spanA: scale(ti.ichimoku.spanA),
+        spanB: scale(ti.ichimoku.spanB),
+      },
+      keltnerChannels: {
+        upper: scale(ti.keltnerChannels.upper),
+        middle: scale(ti.keltnerChannels.middle),
+        lower: scale(ti.keltnerChannels.lower),
+      },
+    },
+    trend: {
+      ...asset.trend,
+      divergences: asset.trend.divergences.map(event => ({
+        ...event,
+        price: { start: scale(event.price.start), end: scale(event.price.end) },
+        // The MACD line is in price units; RSI and OBV are not
+        indicatorValue: event.indicator === 'macd'
+          ? { start: scale(event.indicatorValue.start), end: scale(event.indicatorValue.end) }
+          : event.indicatorValue,
+      })),
+      chartPatterns: asset.trend.chartPatterns.map(pattern => ({
+        ...pattern,
+        keyPoints: pattern.keyPoints.map(point => ({ ...point, price: scale(point.price) })),
+        breakoutLevel: scale(pattern.breakoutLevel),
+        target: scale(pattern.target),
+      })),
+    },
+    supportResistance: {
+      levels: sr.levels.map(level => ({ ...level, price: scale(level.price) })),
+      nearestSupport: scaleLevel(sr.nearestSupport),
+      nearestResistance: scaleLevel(sr.nearestResistance),
+      floorPivots: {
+        pivot: scale(sr.floorPivots.pivot),
+        r1: scale(sr.floorPivots.r1),
+        r2: scale(sr.floorPivots.r2),
+        r3: scale(sr.floorPivots.r3),
+        s1: scale(sr.floorPivots.s1),
+        s2: scale(sr.floorPivots.s2),
+        s3: scale(sr.floorPivots.s3),
+      },
+      fibonacci: sr.fibonacci && {
+        ...sr.fibonacci,
+        swingHigh: { ...sr.fibonacci.swingHigh, price: scale(sr.fibonacci.swingHigh.price) },
+        swingLow: { ...sr.fibonacci.swingLow, price: scale(sr.fibonacci.swingLow.price) },
+        levels: sr.fibonacci.levels.map(level => ({ ...level, price: scale(level.price) })),
+      },
+    },
+    fundamentals: {
+      ...fundamentals,
+      marketCap: fundamentals.marketCap !== undefined ? scale(fundamentals.marketCap) : undefined,
+      crypto: fundamentals.crypto && {
+        ...fundamentals.crypto,
+        fullyDilutedValuation: fundamentals.crypto.fullyDilutedValuation !== undefined
+          ? scale(fundamentals.crypto.fullyDilutedValuation)
+          : undefined,
+        allTimeHigh: fundamentals.crypto.allTimeHigh !== undefined ? scale(fundamentals.crypto.allTimeHigh) : undefined,
+      },
+    },
+  };
+}
+
+// Converts assets for display. An asset whose rate cannot be fetched is
+// returned in its own currency rather than dropped.
+export async function convertAssets(assets: Asset[], currency: string): Promise<Asset[]> {
+  const rates = new Map<string, number | null>();
+
+  for (const asset of assets) {
+    if (asset.currency === currency || rates.has(asset.currency)) {
+      continue;
+    }
+    try {
+      rates.set(asset.currency, await getFxRate(asset.currency, currency));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`Cannot convert ${asset.currency} to ${currency}; showing native prices: ${errorMessage}`);
+      rates.set(asset.currency, null);
+    }
+  }
+
+  return assets.map(asset => {
+    const rate = rates.get(asset.currency);
+    return rate ? convertAsset(asset, currency, rate) : asset;
+  });
+}
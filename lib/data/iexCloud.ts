@@ -1,12 +1,20 @@
 import axios from 'axios';
-import { PriceData } from '@/types';
+import { scheduleRequest } from '@/lib/data/rateLimiter';
+import { AssetMetadata, CorporateAction, FundamentalSnapshot, HistoryOptions, MarketDataProvider, PriceData, Quote } from '@/types';
 
 const API_KEY = process.env.IEX_CLOUD_API_KEY || '';
 const BASE_URL = 'https://cloud.iexapis.com/stable';
 
-// Simple in-memory cache to handle rate limits
-const cache = new Map<string, { data: PriceData[]; timestamp: number }>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+// Chart ranges supported by IEX Cloud, with their approximate length in days
+const CHART_RANGES: { range: string; days: number }[] = [
+  { range: '5d', days: 5 },
+  { range: '1m', days: 30 },
+  { range: '3m', days: 91 },
+  { range: '6m', days: 182 },
+  { range: '1y', days: 365 },
+  { range: '2y', days: 730 },
+  { range: '5y', days: 1825 },
+];
 
 interface IEXChartData {
   date: string;
@@ -30,6 +38,7 @@ interface IEXQuoteData {
   symbol: string;
   companyName: string;
   primaryExchange: string;
+  currency?: string;
   calculationPrice: string;
   open: number;
   openTime: number;
@@ -82,14 +91,16 @@ interface IEXQuoteData {
   ytdChange: number;
 }
 
-export async function fetchUSStockData(symbol: string): Promise<PriceData[]> {
-  const cacheKey = `us_${symbol}`;
-  const cached = cache.get(cacheKey);
-  
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data;
-  }
+// IEX only accepts fixed ranges, so pick the smallest one covering the request
+function getChartRange(options: HistoryOptions): string {
+  const days = options.from
+    ? Math.ceil((Date.now() - new Date(options.from).getTime()) / (24 * 60 * 60 * 1000)) + 1
+    : options.lookbackDays ?? 365;
+  const match = CHART_RANGES.find(r => r.days >= days);
+  return match ? match.range : 'max';
+}
 
+export async function fetchUSStockData(symbol: string, options: HistoryOptions = {}): Promise<PriceData[]> {
   if (!API_KEY) {
     throw new Error('IEX_CLOUD_API_KEY is required. Get a free API key at https://iexcloud.io/console/');
   }
@@ -98,11 +109,11 @@ export async function fetchUSStockData(symbol: string): Promise<PriceData[]> {
     // IEX Cloud free tier: 100,000 messages/month
     // Using chart endpoint to get historical data (1 message per call)
     // Range: 1m, 3m, 6m, 1y, 2y, 5y, ytd, max
-    const response = await axios.get<IEXChartData[]>(`${BASE_URL}/stock/${symbol}/chart/1y`, {
+    const response = await scheduleRequest('iex', () => axios.get<IEXChartData[]>(`${BASE_URL}/stock/${symbol}/chart/${getChartRange(options)}`, {
       params: {
         token: API_KEY,
       },
-    });
+    }));
 
     if (!response.data || response.data.length === 0) {
       throw new Error(`No historical data available for symbol ${symbol}. Please check if the symbol is correct.`);
@@ -117,13 +128,13 @@ export async function fetchUSStockData(symbol: string): Promise<PriceData[]> {
         close: item.close,
         volume: item.volume,
       }))
+      .filter((item) => !options.from || item.date >= options.from)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     if (priceData.length === 0) {
       throw new Error(`No price data found for symbol ${symbol}`);
     }
 
-    cache.set(cacheKey, { data: priceData, timestamp: Date.now() });
     return priceData;
   } catch (error) {
     console.error(`Error fetching US stock data for ${symbol}:`, error);
@@ -140,22 +151,17 @@ export async function fetchUSStockData(symbol: string): Promise<PriceData[]> {
   }
 }
 
-export async function getUSStockQuote(symbol: string): Promise<{
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-}> {
+export async function getUSStockQuote(symbol: string): Promise<Quote> {
   if (!API_KEY) {
     throw new Error('IEX_CLOUD_API_KEY is required. Get a free API key at https://iexcloud.io/console/');
   }
 
   try {
-    const response = await axios.get<IEXQuoteData>(`${BASE_URL}/stock/${symbol}/quote`, {
+    const response = await scheduleRequest('iex', () => axios.get<IEXQuoteData>(`${BASE_URL}/stock/${symbol}/quote`, {
       params: {
         token: API_KEY,
       },
-    });
+    }));
 
     // Check if response is valid and has price data
     if (!response.data || response.data.latestPrice === null || response.data.latestPrice === undefined) {
@@ -167,6 +173,7 @@ export async function getUSStockQuote(symbol: string): Promise<{
       price: response.data.latestPrice,
       change: response.data.change || 0,
       changePercent: (response.data.changePercent || 0) * 100, // Convert to percentage
+      currency: response.data.currency || 'USD',
     };
   } catch (error) {
     console.error(`Error fetching quote for ${symbol}:`, error);
@@ -183,3 +190,195 @@ export async function getUSStockQuote(symbol: string): Promise<{
   }
 }
 
+
+interface IEXCompanyData {
+  symbol: string;
+  companyName: string;
+  exchange: string;
+  sector: string;
+  industry: string;
+}
+
+export async function getUSStockMetadata(symbol: string): Promise<AssetMetadata> {
+  if (!API_KEY) {
+    throw new Error('IEX_CLOUD_API_KEY is required. Get a free API key at https://iexcloud.io/console/');
+  }
+
+  const response = await scheduleRequest('iex', () => axios.get<IEXCompanyData>(`${BASE_URL}/stock/${symbol}/company`, {
+    params: {
+      token: API_KEY,
+    },
+  }));
+
+  if (!response.data || !response.data.companyName) {
+    throw new Error(`No company data available for symbol ${symbol}`);
+  }
+
+  return {
+    symbol: response.data.symbol || symbol,
+    name: response.data.companyName,
+    exchange: response.data.exchange,
+    currency: 'USD',
+  };
+}
+
+interface IEXSplitData {
+  exDate: string;
+  fromFactor: number;
+  toFactor: number;
+}
+
+interface IEXDividendData {
+  exDate: string;
+  amount: number;
+}
+
+export async function getUSStockCorporateActions(symbol: string, options: HistoryOptions = {}): Promise<CorporateAction[]> {
+  if (!API_KEY) {
+    throw new Error('IEX_CLOUD_API_KEY is required. Get a free API key at https://iexcloud.io/console/');
+  }
+
+  const range = getChartRange(options);
+  const [splitsResponse, dividendsResponse] = await Promise.all([
+    scheduleRequest('iex', () => axios.get<IEXSplitData[]>(`${BASE_URL}/stock/${symbol}/splits/${range}`, {
+      params: { token: API_KEY },
+    })),
+    scheduleRequest('iex', () => axios.get<IEXDividendData[]>(`${BASE_URL}/stock/${symbol}/dividends/${range}`, {
+      params: { token: API_KEY },
+    })),
+  ]);
+
+  const splits: CorporateAction[] = (splitsResponse.data || [])
+    .filter(split => split.fromFactor > 0 && split.toFactor > 0)
+    .map(split => ({
+      date: split.exDate,
+      type: 'split',
+      ratio: split.toFactor / split.fromFactor,
+    }));
+
+  const dividends: CorporateAction[] = (dividendsResponse.data || [])
+    .filter(dividend => dividend.amount > 0)
+    .map(dividend => ({
+      date: dividend.exDate,
+      type: 'dividend',
+      amount: dividend.amount,
+    }));
+
+  return [...splits, ...dividends].filter(action => !options.from || action.date >= options.from);
+}
+
+interface IEXAdvancedStats {
+  marketcap: number | null;
+  peRatio: number | null;
+  forwardPERatio: number | null;
+  priceToBook: number | null;
+  dividendYield: number | null;
+  debtToEquity: number | null;
+  ttmEPS: number | null;
+  revenue: number | null;
+  totalRevenue: number | null;
+  profitMargin: number | null;
+}
+
+interface IEXEarningsData {
+  earnings: { actualEPS: number; fiscalPeriod: string }[];
+}
+
+interface IEXIncomeData {
+  income: { reportDate: string; totalRevenue: number | null; netIncome: number | null }[];
+}
+
+interface IEXBalanceSheetData {
+  balancesheet: { reportDate: string; shareholderEquity: number | null }[];
+}
+
+const numberOrUndefined = (value: number | null | undefined) =>
+  typeof value === 'number' && isFinite(value) ? value : undefined;
+
+export async function getUSStockFundamentals(symbol: string): Promise<FundamentalSnapshot> {
+  if (!API_KEY) {
+    throw new Error('IEX_CLOUD_API_KEY is required. Get a free API key at https://iexcloud.io/console/');
+  }
+
+  const [statsResponse, companyResponse, earningsResponse, incomeResponse, balanceSheetResponse] = await Promise.all([
+    scheduleRequest('iex', () => axios.get<IEXAdvancedStats>(`${BASE_URL}/stock/${symbol}/advanced-stats`, {
+      params: { token: API_KEY },
+    })),
+    scheduleRequest('iex', () => axios.get<IEXCompanyData>(`${BASE_URL}/stock/${symbol}/company`, {
+      params: { token: API_KEY },
+    })).catch(() => null),
+    // Last 5 quarters: EPS growth is the latest quarter against the same quarter a year earlier
+    scheduleRequest('iex', () => axios.get<IEXEarningsData>(`${BASE_URL}/stock/${symbol}/earnings/5`, {
+      params: { token: API_KEY },
+    })).catch(() => null),
+    // Same 5 quarters for revenue growth, and the last 4 for trailing net income
+    scheduleRequest('iex', () => axios.get<IEXIncomeData>(`${BASE_URL}/stock/${symbol}/income`, {
+      params: { token: API_KEY, period: 'quarter', last: 5 },
+    })).catch(() => null),
+    scheduleRequest('iex', () => axios.get<IEXBalanceSheetData>(`${BASE_URL}/stock/${symbol}/balance-sheet`, {
+      params: { token: API_KEY, period: 'quarter', last: 1 },
+    })).catch(() => null),
+  ]);
+
+  const stats = statsResponse.data;
+  if (!stats) {
+    throw new Error(`No fundamental data available for symbol ${symbol}`);
+  }
+
+  const earnings = earningsResponse?.data?.earnings || [];
+  const latestEPS = earnings[0]?.actualEPS;
+  const yearAgoEPS = earnings[4]?.actualEPS;
+  const epsGrowth = latestEPS !== undefined && yearAgoEPS !== undefined && yearAgoEPS > 0
+    ? (latestEPS - yearAgoEPS) / yearAgoEPS
+    : undefined;
+
+  const income = incomeResponse?.data?.income || [];
+  const latestRevenue = numberOrUndefined(income[0]?.totalRevenue);
+  const yearAgoRevenue = numberOrUndefined(income[4]?.totalRevenue);
+  const revenueGrowth = latestRevenue !== undefined && yearAgoRevenue !== undefined && yearAgoRevenue > 0
+    ? (latestRevenue - yearAgoRevenue) / yearAgoRevenue
+    : undefined;
+
+  // Return on equity: trailing four quarters of net income over the latest equity
+  const trailingIncome = income.slice(0, 4).map(quarter => numberOrUndefined(quarter.netIncome));
+  const equity = numberOrUndefined(balanceSheetResponse?.data?.balancesheet?.[0]?.shareholderEquity);
+  const returnOnEquity = trailingIncome.length === 4 && trailingIncome.every(value => value !== undefined)
+    && equity !== undefined && equity > 0
+    ? trailingIncome.reduce((sum: number, value) => sum + value!, 0) / equity
+    : undefined;
+
+  return {
+    sector: companyResponse?.data?.sector,
+    industry: companyResponse?.data?.industry,
+    trailingPE: numberOrUndefined(stats.peRatio),
+    forwardPE: numberOrUndefined(stats.forwardPERatio),
+    priceToBook: numberOrUndefined(stats.priceToBook),
+    epsGrowth,
+    revenueGrowth,
+    returnOnEquity,
+    debtToEquity: numberOrUndefined(stats.debtToEquity),
+    dividendYield: numberOrUndefined(stats.dividendYield),
+    marketCap: numberOrUndefined(stats.marketcap),
+  };
+}
+
+export const iexCloudProvider: MarketDataProvider = {
+  id: 'iex',
+  name: 'IEX Cloud',
+  capabilities: {
+    assetTypes: ['us_stock'],
+    history: true,
+    quote: true,
+    metadata: true,
+    corporateActions: true,
+    fundamentals: true,
+    intervals: ['1d'], // intraday charts cover a single day only
+    maxLookbackDays: 1825,
+  },
+  isAvailable: () => Boolean(API_KEY),
+  getHistory: (symbol, _assetType, options) => fetchUSStockData(symbol, options),
+  getQuote: (symbol) => getUSStockQuote(symbol),
+  getMetadata: (symbol) => getUSStockMetadata(symbol),
+  getCorporateActions: (symbol, _assetType, options) => getUSStockCorporateActions(symbol, options),
+  getFundamentals: (symbol) => getUSStockFundamentals(symbol),
+};
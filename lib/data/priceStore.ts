@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AssetType, BarInterval, CorporateAction, PriceData } from '@/types';
+
+// File-based store of daily bars, one JSON file per symbol.
+// Survives process restarts, so a cold start only fetches bars newer than the
+// last stored date instead of refetching the whole window.
+// On read-only deployments point PRICE_STORE_DIR at a writable path such as /tmp.
+const DEFAULT_STORE_DIR = path.join(process.cwd(), '.data', 'prices');
+
+export interface StoredHistory {
+  symbol: string;
+  assetType: AssetType;
+  interval?: BarInterval; // absent on entries written before other intervals existed: daily
+  provider: string; // provider that served the most recent update
+  updatedAt: number; // epoch millis of the last successful update
+  // Start of the widest window fetched in full. The first bar may come later
+  // (weekends, holidays, young listings) without the window being short.
+  coveredFrom?: string;
+  bars: PriceData[]; // raw (unadjusted) bars, sorted ascending by date, one bar per date
+  corporateActions?: CorporateAction[];
+}
+
+function getStoreDir(): string {
+  return process.env.PRICE_STORE_DIR || DEFAULT_STORE_DIR;
+}
+
+// Daily bars live in <SYMBOL>.json, other intervals in <SYMBOL>.<interval>.json
+function storePath(assetType: AssetType, symbol: string, interval: BarInterval = '1d'): string {
+  const safeSymbol = symbol.toUpperCase().replace(/[^A-Z0-9._-]/g, '_');
+  const suffix = interval === '1d' ? '' : `.${interval}`;
+  return path.join(getStoreDir(), assetType, `${safeSymbol}${suffix}.json`);
+}
+
+export async function readStoredHistory(
+  assetType: AssetType,
+  symbol: string,
+  interval: BarInterval = '1d'
+): Promise<StoredHistory | null> {
+  try {
+    const contents = await fs.readFile(storePath(assetType, symbol, interval), 'utf8');
+    return JSON.parse(contents) as StoredHistory;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`Ignoring unreadable price store entry for ${symbol}: ${error.message}`);
+    }
+    return null;
+  }
+}
+
+export async function writeStoredHistory(history: StoredHistory): Promise<void> {
+  const filePath = storePath(history.assetType, history.symbol, history.interval);
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated entry behind
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(history));
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    // The store is an optimisation; failing to persist must not fail the request
+    console.error(`Failed to persist price history for ${history.symbol}:`, error);
+  }
+}
+
+// Slow-moving per-symbol data (fundamentals and the like) is stored alongside
+// the bars as <SYMBOL>.<kind>.json with its own timestamp
+export async function readStoredSnapshot<T>(
+  assetType: AssetType,
+  symbol: string,
+  kind: string
+): Promise<{ updatedAt: number; data: T } | null> {
+  const filePath = storePath(assetType, symbol).replace(/\.json$/, `.${kind}.json`);
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export async function writeStoredSnapshot<T>(assetType: AssetType, symbol: string, kind: string, data: T): Promise<void> {
+  const filePath = storePath(assetType, symbol).replace(/\.json$/, `.${kind}.json`);
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify({ updatedAt: Date.now(), data }));
+  } catch (error) {
+    console.error(`Failed to persist ${kind} for ${symbol}:`, error);
+  }
+}
+
+// Newer bars win: the last stored bar may have been a partial session
+export function mergeBars(existing: PriceData[], incoming: PriceData[]): PriceData[] {
+  const byDate = new Map<string, PriceData>();
+  existing.forEach(bar => byDate.set(bar.date, bar));
+  incoming.forEach(bar => byDate.set(bar.date, bar));
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function mergeCorporateActions(existing: CorporateAction[], incoming: CorporateAction[]): CorporateAction[] {
+  const byKey = new Map<string, CorporateAction>();
+  [...existing, ...incoming].forEach(action => byKey.set(`${action.date}_${action.type}`, action));
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function sliceLookback(bars: PriceData[], lookbackDays?: number): PriceData[] {
+  if (!lookbackDays) {
+    return bars;
+  }
+  const cutoff = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  return bars.filter(bar => bar.date >= cutoff);
+}
@@ -0,0 +1,262 @@
+import { AssetMetadata, AssetType, BarInterval, CorporateAction, FundamentalSnapshot, HistoryOptions, MarketDataProvider, PriceData, Quote } from '@/types';
+import { iexCloudProvider } from '@/lib/data/iexCloud';
+import { yahooFinanceProvider } from '@/lib/data/yahooFinance';
+import { coinGeckoProvider } from '@/lib/data/coinGecko';
+import { getMarketDataMode, historyFixtureKind, recordFixture, replayProvider } from '@/lib/data/replay';
+import {
+  mergeBars,
+  mergeCorporateActions,
+  readStoredHistory,
+  readStoredSnapshot,
+  sliceLookback,
+  writeStoredHistory,
+  writeStoredSnapshot,
+} from '@/lib/data/priceStore';
+import { getCacheExpiry } from '@/lib/utils/marketCalendar';
+
+type ProviderCapability = 'history' | 'quote' | 'metadata' | 'corporateActions' | 'fundamentals';
+
+export interface PriceHistoryResult {
+  data: PriceData[]; // raw bars as served by the provider
+  provider: string;
+  corporateActions: CorporateAction[];
+}
+
+const providers = new Map<string, MarketDataProvider>();
+
+// Stored history is served without asking the providers for newer bars until
+// getCacheExpiry says otherwise: minutes during a session, until the next open outside it
+const DEFAULT_LOOKBACK_DAYS = 365;
+// Fundamentals only change with quarterly filings
+const FUNDAMENTALS_FRESHNESS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Ordered fallback chains: the first available provider that succeeds wins
+const FALLBACK_CHAINS: Record<AssetType, string[]> = {
+  us_stock: ['iex', 'yahoo'],
+  indian_stock: ['yahoo'],
+  crypto: ['coingecko'],
+};
+
+export function registerProvider(provider: MarketDataProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): MarketDataProvider | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): MarketDataProvider[] {
+  return Array.from(providers.values());
+}
+
+export function setFallbackChain(assetType: AssetType, providerIds: string[]): void {
+  FALLBACK_CHAINS[assetType] = providerIds;
+}
+
+export function getProviderChain(
+  assetType: AssetType,
+  capability: ProviderCapability,
+  interval?: BarInterval
+): MarketDataProvider[] {
+  // Replay mode is fully offline: fixtures are the only source
+  const chain = getMarketDataMode() === 'replay' ? [replayProvider.id] : FALLBACK_CHAINS[assetType];
+
+  return chain
+    .map(id => providers.get(id))
+    .filter((provider): provider is MarketDataProvider =>
+      provider !== undefined &&
+      provider.capabilities.assetTypes.includes(assetType) &&
+      provider.capabilities[capability] &&
+      (!interval || provider.capabilities.intervals.includes(interval)) &&
+      provider.isAvailable()
+    );
+}
+
+async function runChain<T>(
+  assetType: AssetType,
+  symbol: string,
+  capability: ProviderCapability,
+  call: (provider: MarketDataProvider) => Promise<T>,
+  interval?: BarInterval // history only: skip providers without this bar size
+): Promise<{ data: T; provider: string }> {
+  const chain = getProviderChain(assetType, capability, interval);
+  if (chain.length === 0) {
+    throw new Error(`No ${capability} provider available for ${assetType}${interval ? ` at ${interval}` : ''}`);
+  }
+
+  const failures: string[] = [];
+  for (const provider of chain) {
+    try {
+      const data = await call(provider);
+      if (failures.length > 0) {
+        console.warn(`Served ${capability} for ${symbol} from fallback provider ${provider.id}`);
+      }
+      if (getMarketDataMode() === 'record') {
+        const kind = capability === 'history' ? historyFixtureKind(interval) : capability;
+        await recordFixture(kind, assetType, symbol, data as PriceData[] | Quote | AssetMetadata | CorporateAction[] | FundamentalSnapshot);
+      }
+      return { data, provider: provider.id };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`Provider ${provider.id} failed ${capability} for ${symbol}: ${errorMessage}`);
+      failures.push(`${provider.id}: ${errorMessage}`);
+    }
+  }
+
+  throw new Error(`All providers failed ${capability} for ${symbol} (${failures.join('; ')})`);
+}
+
+export async function fetchPriceHistory(
+  assetType: AssetType,
+  symbol: string,
+  options: HistoryOptions = {}
+): Promise<PriceHistoryResult> {
+  const interval = options.interval ?? '1d';
+
+  // Fixtures must be replayed and recorded verbatim, so bypass the store
+  if (getMarketDataMode() !== 'live') {
+    const [result, corporateActions] = await Promise.all([
+      runChain(assetType, symbol, 'history', provider =>
+        provider.getHistory(symbol, assetType, clampLookback(provider, options)), interval),
+      fetchCorporateActions(assetType, symbol, options),
+    ]);
+    return { ...result, corporateActions: corporateActions ?? [] };
+  }
+
+  const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+  const stored = await readStoredHistory(assetType, symbol, interval);
+
+  // Stored bars only serve a window they cover; a longer one is refetched in full.
+  // Coverage is judged against the window the providers can actually serve.
+  const servableDays = getServableLookback(assetType, interval, lookbackDays);
+  const windowStart = new Date(Date.now() - servableDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const coveredFrom = stored && stored.bars.length > 0 ? stored.coveredFrom ?? stored.bars[0].date : null;
+  const coversWindow = coveredFrom !== null && coveredFrom <= windowStart;
+
+  if (stored && coversWindow && Date.now() < getCacheExpiry(assetType, stored.updatedAt)) {
+    return {
+      data: sliceLookback(stored.bars, lookbackDays),
+      provider: stored.provider,
+      corporateActions: stored.corporateActions ?? [],
+    };
+  }
+
+  // Only fetch bars newer than the last stored date when the store covers the window
+  const fetchOptions: HistoryOptions = coversWindow
+    ? { from: stored!.bars[stored!.bars.length - 1].date, interval }
+    : { lookbackDays, interval };
+
+  try {
+    const [result, newActions] = await Promise.all([
+      runChain(assetType, symbol, 'history', provider =>
+        provider.getHistory(symbol, assetType, clampLookback(provider, fetchOptions)), interval),
+      fetchCorporateActions(assetType, symbol, fetchOptions),
+    ]);
+    const bars = mergeBars(stored?.bars ?? [], result.data);
+    // A full fetch covers as much of the window as the serving provider allows
+    const servedDays = Math.min(servableDays, getProvider(result.provider)?.capabilities.maxLookbackDays ?? Infinity);
+    const corporateActions = mergeCorporateActions(stored?.corporateActions ?? [], newActions ?? []);
+
+    await writeStoredHistory({
+      symbol,
+      assetType,
+      interval,
+      provider: result.provider,
+      updatedAt: Date.now(),
+      coveredFrom: coversWindow
+        ? coveredFrom!
+        : new Date(Date.now() - servedDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      bars,
+      corporateActions,
+    });
+
+    return { data: sliceLookback(bars, lookbackDays), provider: result.provider, corporateActions };
+  } catch (error) {
+    // Stale bars beat no bars: serve what we have if every provider is down
+    if (stored && stored.bars.length > 0) {
+      console.warn(`Serving stored history for ${symbol} after provider failure`);
+      return {
+        data: sliceLookback(stored.bars, lookbackDays),
+        provider: stored.provider,
+        corporateActions: stored.corporateActions ?? [],
+      };
+    }
+    throw error;
+  }
+}
+
+// The longest part of a lookback that some provider in the chain can serve
+function getServableLookback(assetType: AssetType, interval: BarInterval, lookbackDays: number): number {
+  const limits = getProviderChain(assetType, 'history', interval)
+    .map(provider => provider.capabilities.maxLookbackDays ?? Infinity);
+  return limits.length > 0 ? Math.min(lookbackDays, Math.max(...limits)) : lookbackDays;
+}
+
+// Never ask a provider for more history than it can serve
+function clampLookback(provider: MarketDataProvider, options: HistoryOptions): HistoryOptions {
+  const maxLookbackDays = provider.capabilities.maxLookbackDays;
+  return maxLookbackDays && options.lookbackDays && options.lookbackDays > maxLookbackDays
+    ? { ...options, lookbackDays: maxLookbackDays }
+    : options;
+}
+
+// Corporate actions are best-effort: assets without a capable provider (crypto)
+// have none, and a failed lookup returns null rather than failing the analysis
+export async function fetchCorporateActions(
+  assetType: AssetType,
+  symbol: string,
+  options: HistoryOptions = {}
+): Promise<CorporateAction[] | null> {
+  if (getProviderChain(assetType, 'corporateActions').length === 0) {
+    return [];
+  }
+
+  try {
+    const result = await runChain(assetType, symbol, 'corporateActions', provider =>
+      provider.getCorporateActions!(symbol, assetType, options)
+    );
+    return result.data;
+  } catch (error) {
+    console.warn(`Corporate actions unavailable for ${symbol}; prices will not be adjusted`);
+    return null;
+  }
+}
+
+// Fundamentals are best-effort too: null means none could be fetched
+export async function fetchFundamentals(assetType: AssetType, symbol: string): Promise<FundamentalSnapshot | null> {
+  if (getProviderChain(assetType, 'fundamentals').length === 0) {
+    return null;
+  }
+
+  const live = getMarketDataMode() === 'live';
+  const stored = live ? await readStoredSnapshot<FundamentalSnapshot>(assetType, symbol, 'fundamentals') : null;
+  if (stored && Date.now() - stored.updatedAt < FUNDAMENTALS_FRESHNESS) {
+    return stored.data;
+  }
+
+  try {
+    const result = await runChain(assetType, symbol, 'fundamentals', provider =>
+      provider.getFundamentals!(symbol, assetType)
+    );
+    if (live) {
+      await writeStoredSnapshot(assetType, symbol, 'fundamentals', result.data);
+    }
+    return result.data;
+  } catch (error) {
+    console.warn(`Fundamentals unavailable for ${symbol}; scoring on volume trend only`);
+    return stored?.data ?? null;
+  }
+}
+
+export function fetchQuote(assetType: AssetType, symbol: string): Promise<{ data: Quote; provider: string }> {
+  return runChain(assetType, symbol, 'quote', provider => provider.getQuote(symbol, assetType));
+}
+
+export function fetchMetadata(assetType: AssetType, symbol: string): Promise<{ data: AssetMetadata; provider: string }> {
+  return runChain(assetType, symbol, 'metadata', provider => provider.getMetadata(symbol, assetType));
+}
+
+registerProvider(iexCloudProvider);
+registerProvider(yahooFinanceProvider);
+registerProvider(coinGeckoProvider);
+registerProvider(replayProvider);
@@ -0,0 +1,250 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+
+// Per-provider token-bucket scheduler. Every outbound provider call goes
+// through scheduleRequest(), which queues it until a token is available,
+// retries 429/5xx responses with jittered exponential backoff (honouring
+// Retry-After), and counts calls against the provider's monthly quota.
+
+export interface RateLimitConfig {
+  requestsPerMinute: number;
+  burst: number; // bucket capacity: calls allowed back-to-back before pacing kicks in
+  monthlyQuota?: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RateLimitStatus {
+  providerId: string;
+  config: RateLimitConfig;
+  availableTokens: number;
+  queued: number;
+  blockedUntil: string | null;
+  month: string;
+  monthlyUsage: number;
+  monthlyRemaining: number | null;
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+  requestsPerMinute: 60,
+  burst: 5,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const RATE_LIMITS: Record<string, Partial<RateLimitConfig>> = {
+  // IEX Cloud free tier: 100,000 messages/month
+  iex: { requestsPerMinute: 60, monthlyQuota: 100000 },
+  // Yahoo has no published limit; stay well under what it tolerates
+  yahoo: { requestsPerMinute: 60 },
+  // CoinGecko Demo API: 30 calls/minute, 10,000 calls/month
+  coingecko: { requestsPerMinute: 30, burst: 3, monthlyQuota: 10000 },
+  // Frankfurter FX rates: no published limit, and rates are cached for an hour
+  frankfurter: { requestsPerMinute: 30 },
+};
+
+// Usage counters are kept next to the price store so they survive restarts too
+const QUOTA_FILE = path.resolve(process.env.PRICE_STORE_DIR || path.join(process.cwd(), '.data', 'prices'), '..', 'quota.json');
+
+interface BucketState {
+  tokens: number;
+  lastRefill: number;
+  blockedUntil: number; // set from Retry-After; no tokens are handed out before this
+  queue: (() => void)[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const buckets = new Map<string, BucketState>();
+let monthlyUsage: Record<string, number> | null = null;
+let monthlyUsageLoad: Promise<Record<string, number>> | null = null;
+let quotaWritePending = false;
+
+export function configureRateLimit(providerId: string, config: Partial<RateLimitConfig>): void {
+  RATE_LIMITS[providerId] = { ...RATE_LIMITS[providerId], ...config };
+}
+
+export function getRateLimitConfig(providerId: string): RateLimitConfig {
+  return { ...DEFAULT_CONFIG, ...RATE_LIMITS[providerId] };
+}
+
+function getBucket(providerId: string): BucketState {
+  let bucket = buckets.get(providerId);
+  if (!bucket) {
+    bucket = {
+      tokens: getRateLimitConfig(providerId).burst,
+      lastRefill: Date.now(),
+      blockedUntil: 0,
+      queue: [],
+      timer: null,
+    };
+    buckets.set(providerId, bucket);
+  }
+  return bucket;
+}
+
+function refill(providerId: string, bucket: BucketState): void {
+  const config = getRateLimitConfig(providerId);
+  const now = Date.now();
+  const tokensPerMs = config.requestsPerMinute / 60000;
+  bucket.tokens = Math.min(config.burst, bucket.tokens + (now - bucket.lastRefill) * tokensPerMs);
+  bucket.lastRefill = now;
+}
+
+// Hand out tokens to queued callers in FIFO order, then sleep until the next token
+function drain(providerId: string): void {
+  const bucket = getBucket(providerId);
+  bucket.timer = null;
+  refill(providerId, bucket);
+
+  const now = Date.now();
+  while (bucket.queue.length > 0 && bucket.tokens >= 1 && now >= bucket.blockedUntil) {
+    bucket.tokens -= 1;
+    bucket.queue.shift()!();
+  }
+
+  if (bucket.queue.length > 0) {
+    const config = getRateLimitConfig(providerId);
+    const msPerToken = 60000 / config.requestsPerMinute;
+    const waitMs = Math.max(bucket.blockedUntil - now, (1 - bucket.tokens) * msPerToken, 0);
+    bucket.timer = setTimeout(() => drain(providerId), Math.ceil(waitMs));
+  }
+}
+
+function acquireToken(providerId: string): Promise<void> {
+  return new Promise(resolve => {
+    const bucket = getBucket(providerId);
+    bucket.queue.push(resolve);
+    if (!bucket.timer) {
+      drain(providerId);
+    }
+  });
+}
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7); // YYYY-MM
+}
+
+// Concurrent first callers share one read, so none of them replaces the
+// counts with a fresh copy after others have already added to it
+function loadMonthlyUsage(): Promise<Record<string, number>> {
+  if (!monthlyUsageLoad) {
+    monthlyUsageLoad = fs.readFile(QUOTA_FILE, 'utf8')
+      .then(contents => JSON.parse(contents) as Record<string, number>)
+      .catch(() => ({}))
+      .then(usage => {
+        monthlyUsage = usage;
+        return usage;
+      });
+  }
+  return monthlyUsageLoad;
+}
+
+// Coalesce bursts of calls into a single write
+function persistMonthlyUsage(): void {
+  if (quotaWritePending) {
+    return;
+  }
+  quotaWritePending = true;
+  setTimeout(async () => {
+    quotaWritePending = false;
+    try {
+      await fs.mkdir(path.dirname(QUOTA_FILE), { recursive: true });
+      await fs.writeFile(QUOTA_FILE, JSON.stringify(monthlyUsage));
+    } catch (error) {
+      console.error('Failed to persist provider quota usage:', error);
+    }
+  }, 1000);
+}
+
+async function consumeQuota(providerId: string): Promise<void> {
+  const config = getRateLimitConfig(providerId);
+  const usage = await loadMonthlyUsage();
+  const key = `${providerId}:${currentMonth()}`;
+  const used = usage[key] || 0;
+
+  if (config.monthlyQuota !== undefined && used >= config.monthlyQuota) {
+    throw new Error(`Monthly quota of ${config.monthlyQuota} calls exhausted for ${providerId}`);
+  }
+
+  usage[key] = used + 1;
+  persistMonthlyUsage();
+}
+
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return false;
+  }
+  return error.response.status === 429 || error.response.status >= 500;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function scheduleRequest<T>(providerId: string, request: () => Promise<T>): Promise<T> {
+  const config = getRateLimitConfig(providerId);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(providerId);
+    await consumeQuota(providerId);
+
+    try {
+      return await request();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= config.maxRetries) {
+        throw error;
+      }
+
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      const retryAfter = parseRetryAfter(response?.headers?.['retry-after']);
+      // Full jitter keeps concurrent callers from retrying in lockstep
+      const backoff = Math.random() * Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+      const waitMs = retryAfter ?? backoff;
+
+      if (response?.status === 429) {
+        // The whole provider is throttled, not just this call
+        const bucket = getBucket(providerId);
+        bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + waitMs);
+      }
+
+      console.warn(`${providerId} returned ${response?.status}; retrying in ${Math.round(waitMs)}ms (attempt ${attempt + 1}/${config.maxRetries})`);
+      await sleep(waitMs);
+    }
+  }
+}
+
+export async function getRateLimitStatus(): Promise<RateLimitStatus[]> {
+  const usage = await loadMonthlyUsage();
+  const month = currentMonth();
+
+  return Object.keys(RATE_LIMITS).map(providerId => {
+    const config = getRateLimitConfig(providerId);
+    const bucket = getBucket(providerId);
+    refill(providerId, bucket);
+    const used = usage[`${providerId}:${month}`] || 0;
+
+    return {
+      providerId,
+      config,
+      availableTokens: Math.floor(bucket.tokens),
+      queued: bucket.queue.length,
+      blockedUntil: bucket.blockedUntil > Date.now() ? new Date(bucket.blockedUntil).toISOString() : null,
+      month,
+      monthlyUsage: used,
+      monthlyRemaining: config.monthlyQuota !== undefined ? Math.max(0, config.monthlyQuota - used) : null,
+    };
+  });
+}
@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AssetMetadata, AssetType, BarInterval, CorporateAction, FundamentalSnapshot, HistoryOptions, MarketDataProvider, PriceData, Quote } from '@/types';
+
+// MARKET_DATA_MODE controls where market data comes from:
+// - live (default): call the real providers
+// - replay: serve everything from recorded fixtures, never touch the network
+// - record: call the real providers and write every response to the fixtures directory
+export type MarketDataMode = 'live' | 'replay' | 'record';
+
+export type FixtureKind = 'history' | `history.${BarInterval}` | 'quote' | 'metadata' | 'corporateActions' | 'fundamentals';
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'market-data');
+
+export function getMarketDataMode(): MarketDataMode {
+  const mode = (process.env.MARKET_DATA_MODE || 'live').toLowerCase();
+  if (mode === 'replay' || mode === 'record') {
+    return mode;
+  }
+  return 'live';
+}
+
+export function isReplayMode(): boolean {
+  return getMarketDataMode() === 'replay';
+}
+
+// Daily history keeps the plain `history` name so fixtures recorded before
+// other intervals existed stay valid; others are <SYMBOL>.history.<interval>.json
+export function historyFixtureKind(interval: BarInterval = '1d'): FixtureKind {
+  return interval === '1d' ? 'history' : `history.${interval}`;
+}
+
+function getFixturesDir(): string {
+  return process.env.MARKET_DATA_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+// Fixtures live at <dir>/<assetType>/<SYMBOL>.<kind>.json (history may also be .csv)
+function fixturePath(assetType: AssetType, symbol: string, kind: FixtureKind, extension: 'json' | 'csv' = 'json'): string {
+  const safeSymbol = symbol.toUpperCase().replace(/[^A-Z0-9._-]/g, '_');
+  return path.join(getFixturesDir(), assetType, `${safeSymbol}.${kind}.${extension}`);
+}
+
+async function readJsonFixture<T>(assetType: AssetType, symbol: string, kind: FixtureKind): Promise<T | null> {
+  try {
+    const contents = await fs.readFile(fixturePath(assetType, symbol, kind), 'utf8');
+    return JSON.parse(contents) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw new Error(`Invalid ${kind} fixture for ${symbol}: ${error.message}`);
+  }
+}
+
+function parseCsvHistory(contents: string): PriceData[] {
+  const lines = contents.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  // Skip the header row if present
+  const rows = lines[0] && /^date/i.test(lines[0]) ? lines.slice(1) : lines;
+
+  return rows.map(line => {
+    const [date, open, high, low, close, volume] = line.split(',');
+    return {
+      date,
+      open: Number(open),
+      high: Number(high),
+      low: Number(low),
+      close: Number(close),
+      volume: Number(volume) || 0,
+    };
+  });
+}
+
+async function readHistoryFixture(assetType: AssetType, symbol: string, interval?: BarInterval): Promise<PriceData[]> {
+  const kind = historyFixtureKind(interval);
+  const json = await readJsonFixture<PriceData[]>(assetType, symbol, kind);
+  if (json) {
+    return json;
+  }
+
+  try {
+    const contents = await fs.readFile(fixturePath(assetType, symbol, kind, 'csv'), 'utf8');
+    return parseCsvHistory(contents);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`No recorded ${kind} fixture for ${symbol} (${assetType}) in ${getFixturesDir()}`);
+    }
+    throw error;
+  }
+}
+
+export async function recordFixture(
+  kind: FixtureKind,
+  assetType: AssetType,
+  symbol: string,
+  data: PriceData[] | Quote | AssetMetadata | CorporateAction[] | FundamentalSnapshot
+): Promise<void> {
+  const filePath = fixturePath(assetType, symbol, kind);
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2));
+  } catch (error) {
+    // Recording must never break a live request
+    console.error(`Failed to record ${kind} fixture for ${symbol}:`, error);
+  }
+}
+
+export const replayProvider: MarketDataProvider = {
+  id: 'replay',
+  name: 'Recorded fixtures',
+  capabilities: {
+    assetTypes: ['us_stock', 'indian_stock', 'crypto'],
+    history: true,
+    quote: true,
+    metadata: true,
+    corporateActions: true,
+    fundamentals: true,
+    intervals: ['1h', '4h', '1d', '1wk'],
+  },
+  isAvailable: () => isReplayMode(),
+  getHistory: async (symbol: string, assetType: AssetType, options?: HistoryOptions) => {
+    const priceData = (await readHistoryFixture(assetType, symbol, options?.interval))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    if (!options?.lookbackDays || priceData.length === 0) {
+      return priceData;
+    }
+
+    // Anchor the lookback window on the last recorded bar, not the wall clock,
+    // so replayed output does not drift as fixtures age
+    const lastDate = new Date(priceData[priceData.length - 1].date);
+    lastDate.setUTCDate(lastDate.getUTCDate() - options.lookbackDays);
+    const cutoff = lastDate.toISOString().split('T')[0];
+    return priceData.filter(d => d.date >= cutoff);
+  },
+  getQuote: async (symbol: string, assetType: AssetType) => {
+    const quote = await readJsonFixture<Quote>(assetType, symbol, 'quote');
+    if (!quote) {
+      throw new Error(`No recorded quote fixture for ${symbol} (${assetType})`);
+    }
+    return quote;
+  },
+  getMetadata: async (symbol: string, assetType: AssetType) => {
+    const metadata = await readJsonFixture<AssetMetadata>(assetType, symbol, 'metadata');
+    if (!metadata) {
+      throw new Error(`No recorded metadata fixture for ${symbol} (${assetType})`);
+    }
+    return metadata;
+  },
+  // Assets recorded without actions (e.g. crypto) simply have none
+  getCorporateActions: async (symbol: string, assetType: AssetType) =>
+    (await readJsonFixture<CorporateAction[]>(assetType, symbol, 'corporateActions')) ?? [],
+  getFundamentals: async (symbol: string, assetType: AssetType) => {
+    const fundamentals = await readJsonFixture<FundamentalSnapshot>(assetType, symbol, 'fundamentals');
+    if (!fundamentals) {
+      throw new Error(`No recorded fundamentals fixture for ${symbol} (${assetType})`);
+    }
+    return fundamentals;
+  },
+};
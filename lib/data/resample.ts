@@ -0,0 +1,44 @@
+import { BarInterval, PriceData } from '@/types';
+import { INTERVAL_MS, isIntraday } from '@/lib/utils/timeframe';
+
+// Start of the bar a timestamp falls into. Intraday bars are aligned to UTC
+// hours and keyed by ISO timestamp; weekly bars start on Monday and are keyed
+// by date, like daily bars.
+export function getBarKey(timestamp: number, interval: BarInterval): string {
+  if (isIntraday(interval)) {
+    const start = Math.floor(timestamp / INTERVAL_MS[interval]) * INTERVAL_MS[interval];
+    return new Date(start).toISOString();
+  }
+
+  const date = new Date(timestamp);
+  if (interval === '1wk') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// Combines finer bars into coarser ones (1h -> 4h, 1d -> 1wk)
+export function resampleBars(bars: PriceData[], interval: BarInterval): PriceData[] {
+  const buckets = new Map<string, PriceData>();
+
+  // Bars without a close have nothing to contribute; NaN highs/lows/volumes
+  // are skipped so one gap does not poison the whole bucket
+  [...bars]
+    .filter(bar => bar.close > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(bar => {
+      const key = getBarKey(new Date(bar.date).getTime(), interval);
+      const bucket = buckets.get(key);
+      if (!bucket) {
+        buckets.set(key, { ...bar, date: key });
+        return;
+      }
+      if (bar.high > 0) bucket.high = bucket.high > 0 ? Math.max(bucket.high, bar.high) : bar.high;
+      if (bar.low > 0) bucket.low = bucket.low > 0 ? Math.min(bucket.low, bar.low) : bar.low;
+      if (bar.volume >= 0) bucket.volume = (bucket.volume >= 0 ? bucket.volume : 0) + bar.volume;
+      bucket.close = bar.close;
+    });
+
+  return Array.from(buckets.values());
+}
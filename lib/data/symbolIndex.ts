@@ -0,0 +1,376 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { AssetType, IndianExchange, SymbolEntry, SymbolMatch } from '@/types';
+import { scheduleRequest } from '@/lib/data/rateLimiter';
+import { fetchCoinList } from '@/lib/data/coinGecko';
+import { isReplayMode } from '@/lib/data/replay';
+import { fromIndianListing, toIndianListing } from '@/lib/utils/exchanges';
+
+// Local symbol master for US tickers, NSE/BSE scrips and CoinGecko coins.
+// Each source is downloaded at most once a week and cached on disk next to the
+// price store; if a refresh fails the previous copy keeps serving.
+const SYMBOL_INDEX_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SYMBOLS_DIR = path.resolve(process.env.PRICE_STORE_DIR || path.join(process.cwd(), '.data', 'prices'), '..', 'symbols');
+
+const NASDAQ_LISTED_URL = 'https://www.nasdaqtrader.com/dynamic/SymDir/nasdaqlisted.txt';
+const OTHER_LISTED_URL = 'https://www.nasdaqtrader.com/dynamic/SymDir/otherlisted.txt';
+const NSE_EQUITY_URL = 'https://archives.nseindia.com/content/equities/EQUITY_L.csv';
+const BSE_SCRIPS_URL = 'https://api.bseindia.com/BseIndiaAPI/api/ListofScripData/w';
+// NSE and BSE reject requests without a browser-like user agent
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; asset-recommender)',
+  Accept: '*/*',
+};
+
+// Exchange codes used in Nasdaq Trader's otherlisted.txt
+const OTHER_LISTED_EXCHANGES: Record<string, string> = {
+  A: 'NYSE American',
+  N: 'NYSE',
+  P: 'NYSE Arca',
+  Z: 'Cboe BZX',
+  V: 'IEX',
+};
+
+// Names people use that neither the ticker nor the listed name contain
+const EXTRA_ALIASES: Record<string, string[]> = {
+  'us_stock:META': ['FB', 'FACEBOOK'],
+  'us_stock:GOOGL': ['GOOGLE'],
+  'crypto:bitcoin': ['XBT'],
+  'indian_stock:LICI': ['LIC'],
+  'indian_stock:M&M': ['MAHINDRA'],
+};
+
+const MIN_RESOLVE_SCORE = 60;
+
+type SymbolSource = 'us' | 'nse' | 'bse' | 'crypto';
+
+const SOURCES: Record<SymbolSource, () => Promise<SymbolEntry[]>> = {
+  us: fetchUSSymbols,
+  nse: fetchNSESymbols,
+  bse: fetchBSESymbols,
+  crypto: fetchCryptoSymbols,
+};
+
+let memoryIndex: { entries: SymbolEntry[]; loadedAt: number } | null = null;
+let pendingLoad: Promise<SymbolEntry[]> | null = null;
+
+async function fetchText(providerId: string, url: string, params?: Record<string, string>): Promise<string> {
+  const response = await scheduleRequest(providerId, () => axios.get<string>(url, {
+    params,
+    headers: BROWSER_HEADERS,
+    responseType: 'text',
+    timeout: 30000,
+  }));
+  return response.data;
+}
+
+// Pipe-delimited with a header row and a trailing "File Creation Time" line
+function parsePipeFile(contents: string): Record<string, string>[] {
+  const lines = contents.split(/\r?\n/).filter(line => line && !line.startsWith('File Creation Time'));
+  const header = lines[0].split('|');
+  return lines.slice(1).map(line => {
+    const values = line.split('|');
+    return Object.fromEntries(header.map((column, i) => [column.trim(), (values[i] || '').trim()]));
+  });
+}
+
+function parseCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values;
+}
+
+// "Apple Inc. - Common Stock" -> "Apple Inc."
+function cleanSecurityName(name: string): string {
+  return name.split(' - ')[0].trim();
+}
+
+async function fetchUSSymbols(): Promise<SymbolEntry[]> {
+  const [nasdaq, other] = await Promise.all([
+    fetchText('nasdaqtrader', NASDAQ_LISTED_URL),
+    fetchText('nasdaqtrader', OTHER_LISTED_URL),
+  ]);
+
+  const nasdaqEntries = parsePipeFile(nasdaq)
+    .filter(row => row['Symbol'] && row['Test Issue'] !== 'Y')
+    .map(row => ({
+      id: row['Symbol'],
+      symbol: row['Symbol'],
+      name: cleanSecurityName(row['Security Name']),
+      assetType: 'us_stock' as const,
+      exchange: 'NASDAQ',
+      aliases: [],
+    }));
+
+  const otherEntries = parsePipeFile(other)
+    .filter(row => row['ACT Symbol'] && row['Test Issue'] !== 'Y')
+    .map(row => ({
+      id: row['ACT Symbol'],
+      symbol: row['ACT Symbol'],
+      name: cleanSecurityName(row['Security Name']),
+      assetType: 'us_stock' as const,
+      exchange: OTHER_LISTED_EXCHANGES[row['Exchange']] || row['Exchange'],
+      aliases: row['CQS Symbol'] && row['CQS Symbol'] !== row['ACT Symbol'] ? [row['CQS Symbol']] : [],
+    }));
+
+  return [...nasdaqEntries, ...otherEntries];
+}
+
+async function fetchNSESymbols(): Promise<SymbolEntry[]> {
+  const lines = (await fetchText('nse', NSE_EQUITY_URL)).split(/\r?\n/).filter(Boolean);
+  const header = parseCsvLine(lines[0]).map(column => column.toUpperCase());
+  const column = (name: string) => header.indexOf(name);
+
+  return lines.slice(1)
+    .map(parseCsvLine)
+    .filter(values => values[column('SYMBOL')])
+    .map(values => ({
+      id: values[column('SYMBOL')],
+      symbol: values[column('SYMBOL')],
+      name: values[column('NAME OF COMPANY')],
+      assetType: 'indian_stock' as const,
+      exchange: 'NSE',
+      isin: values[column('ISIN NUMBER')] || undefined,
+      aliases: [],
+    }));
+}
+
+interface BSEScripData {
+  SCRIP_CD: string;
+  Scrip_Name: string;
+  scrip_id: string;
+  ISIN_NUMBER: string;
+  Status: string;
+}
+
+async function fetchBSESymbols(): Promise<SymbolEntry[]> {
+  const response = await scheduleRequest('bse', () => axios.get<BSEScripData[]>(BSE_SCRIPS_URL, {
+    params: { Group: '', Scripcode: '', industry: '', segment: 'Equity', status: 'Active' },
+    headers: { ...BROWSER_HEADERS, Referer: 'https://www.bseindia.com/' },
+    timeout: 30000,
+  }));
+
+  if (!Array.isArray(response.data)) {
+    throw new Error('Invalid scrip list response from BSE');
+  }
+
+  return response.data
+    .filter(scrip => scrip.scrip_id && scrip.SCRIP_CD)
+    .map(scrip => ({
+      id: scrip.scrip_id,
+      symbol: scrip.scrip_id,
+      name: scrip.Scrip_Name,
+      assetType: 'indian_stock' as const,
+      exchange: 'BSE',
+      isin: scrip.ISIN_NUMBER || undefined,
+      aliases: [String(scrip.SCRIP_CD)], // numeric scrip code, e.g. 500325
+    }));
+}
+
+async function fetchCryptoSymbols(): Promise<SymbolEntry[]> {
+  return (await fetchCoinList()).map(coin => ({
+    id: coin.id,
+    symbol: coin.symbol,
+    name: coin.name,
+    assetType: 'crypto' as const,
+    aliases: [],
+    rank: coin.rank,
+  }));
+}
+
+async function readCachedSource(source: SymbolSource): Promise<{ updatedAt: number; entries: SymbolEntry[] } | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(SYMBOLS_DIR, `${source}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+async function writeCachedSource(source: SymbolSource, entries: SymbolEntry[]): Promise<void> {
+  try {
+    await fs.mkdir(SYMBOLS_DIR, { recursive: true });
+    await fs.writeFile(path.join(SYMBOLS_DIR, `${source}.json`), JSON.stringify({ updatedAt: Date.now(), entries }));
+  } catch (error) {
+    console.error(`Failed to persist ${source} symbol list:`, error);
+  }
+}
+
+async function loadSource(source: SymbolSource): Promise<SymbolEntry[]> {
+  const cached = await readCachedSource(source);
+  // Replay mode stays offline and only uses what is already cached
+  if (cached && (isReplayMode() || Date.now() - cached.updatedAt < SYMBOL_INDEX_TTL)) {
+    return cached.entries;
+  }
+  if (isReplayMode()) {
+    return [];
+  }
+
+  try {
+    const entries = await SOURCES[source]();
+    await writeCachedSource(source, entries);
+    return entries;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`Failed to refresh ${source} symbol list: ${errorMessage}`);
+    return cached?.entries ?? [];
+  }
+}
+
+export async function getSymbolIndex(): Promise<SymbolEntry[]> {
+  if (memoryIndex && Date.now() - memoryIndex.loadedAt < SYMBOL_INDEX_TTL) {
+    return memoryIndex.entries;
+  }
+  // Concurrent requests share one load instead of each downloading the lists
+  if (!pendingLoad) {
+    pendingLoad = Promise.all((Object.keys(SOURCES) as SymbolSource[]).map(loadSource))
+      .then(lists => {
+        const entries = lists.flat().map(entry => ({
+          ...entry,
+          aliases: [...entry.aliases, ...(EXTRA_ALIASES[`${entry.assetType}:${entry.id}`] || [])],
+        }));
+        memoryIndex = { entries, loadedAt: Date.now() };
+        return entries;
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+  return pendingLoad;
+}
+
+function normalize(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9&]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Exact identifiers beat name matches, prefixes beat substrings, and typos
+// (edit distance 1-2) still match with a low score
+function scoreEntry(entry: SymbolEntry, query: string, queryWords: string[]): number {
+  const symbol = normalize(entry.symbol);
+  const name = normalize(entry.name);
+  const identifiers = [normalize(entry.id), ...entry.aliases.map(normalize), ...(entry.isin ? [entry.isin] : [])];
+
+  if (symbol === query) return 100;
+  if (identifiers.includes(query)) return 95;
+  if (name === query) return 90;
+  if (symbol.startsWith(query)) return 75 - Math.min(15, symbol.length - query.length);
+  if (name.startsWith(query)) return 70;
+
+  const nameWords = entry.name.toUpperCase().split(/\s+/).map(normalize).filter(Boolean);
+  if (queryWords.length > 0 && queryWords.every(word => nameWords.some(nameWord => nameWord.startsWith(word)))) {
+    return 60;
+  }
+  if (query.length >= 3 && name.includes(query)) return 45;
+
+  if (query.length >= 3) {
+    const candidates = [symbol, ...nameWords].filter(candidate => Math.abs(candidate.length - query.length) <= 2);
+    const distance = Math.min(...candidates.map(candidate => levenshtein(candidate, query)), Infinity);
+    if (distance <= (query.length >= 6 ? 2 : 1)) {
+      return 35 - distance * 5;
+    }
+  }
+  return 0;
+}
+
+// Primary listings first: NASDAQ/NYSE over smaller venues, NSE over BSE
+const EXCHANGE_PRIORITY: Record<string, number> = {
+  NASDAQ: 0,
+  NYSE: 0,
+  NSE: 0,
+  'NYSE American': 1,
+  'NYSE Arca': 1,
+  BSE: 1,
+};
+
+function compareMatches(a: SymbolMatch, b: SymbolMatch): number {
+  return b.score - a.score ||
+    (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+    (EXCHANGE_PRIORITY[a.exchange || ''] ?? 2) - (EXCHANGE_PRIORITY[b.exchange || ''] ?? 2) ||
+    a.symbol.length - b.symbol.length;
+}
+
+export async function searchSymbols(
+  query: string,
+  options: { assetType?: AssetType; limit?: number } = {}
+): Promise<SymbolMatch[]> {
+  const normalized = normalize(query);
+  if (!normalized) {
+    return [];
+  }
+  const queryWords = query.toUpperCase().split(/\s+/).map(normalize).filter(Boolean);
+
+  const matches: SymbolMatch[] = [];
+  for (const entry of await getSymbolIndex()) {
+    if (options.assetType && entry.assetType !== options.assetType) {
+      continue;
+    }
+    const score = scoreEntry(entry, normalized, queryWords);
+    if (score > 0) {
+      matches.push({ ...entry, score });
+    }
+  }
+
+  return matches.sort(compareMatches).slice(0, options.limit ?? 20);
+}
+
+// Best confident match for free-form input ("apple", "btc", "500325"), or null
+// when nothing matches well enough to act on
+export async function resolveSymbol(input: string, assetType: AssetType): Promise<SymbolMatch | null> {
+  const [best] = await searchSymbols(input, { assetType, limit: 1 });
+  return best && best.score >= MIN_RESOLVE_SCORE ? best : null;
+}
+
+// Symbol the providers expect for user input, resolved the way the asset
+// endpoints do. Indian listings take the requested exchange, else the input's
+// suffix, else the index's exchange, else NSE. Unknown input passes through as
+// a ticker (or a lowercased coin id).
+export async function resolveProviderSymbol(
+  input: string,
+  assetType: AssetType,
+  exchange?: IndianExchange | null
+): Promise<{ symbol: string; name?: string }> {
+  if (assetType === 'indian_stock') {
+    const listing = fromIndianListing(input);
+    const suffixExchange = listing.symbol !== input ? listing.exchange : undefined;
+    const match = await resolveSymbol(listing.symbol, assetType);
+    const matchExchange = match?.exchange === 'BSE' ? 'BSE' : undefined;
+    return {
+      symbol: toIndianListing(match?.id ?? listing.symbol, exchange ?? suffixExchange ?? matchExchange ?? 'NSE'),
+      name: match?.name,
+    };
+  }
+
+  const match = await resolveSymbol(input, assetType);
+  return {
+    symbol: match?.id ?? (assetType === 'crypto' ? input.toLowerCase() : input.toUpperCase()),
+    name: match?.name,
+  };
+}
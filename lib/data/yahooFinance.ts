@@ -1,45 +1,68 @@
 import axios from 'axios';
-import { PriceData } from '@/types';
+import { scheduleRequest } from '@/lib/data/rateLimiter';
+import { AssetMetadata, AssetType, BarInterval, CorporateAction, FundamentalSnapshot, HistoryOptions, MarketDataProvider, PriceData, Quote } from '@/types';
+import { fromIndianListing } from '@/lib/utils/exchanges';
+import { resampleBars } from '@/lib/data/resample';
+import { isIntraday } from '@/lib/utils/timeframe';
 
 // Using Yahoo Finance API via yahoo-finance2 alternative endpoint
 // Since yahoo-finance2 is a Node.js library, we'll use a public API proxy
 const YAHOO_FINANCE_API = 'https://query1.finance.yahoo.com/v8/finance/chart';
+const YAHOO_QUOTE_SUMMARY_API = 'https://query2.finance.yahoo.com/v10/finance/quoteSummary';
+// quoteSummary answers 401 unless called with a session cookie and its crumb
+const YAHOO_COOKIE_URL = 'https://fc.yahoo.com';
+const YAHOO_CRUMB_API = 'https://query2.finance.yahoo.com/v1/test/getcrumb';
+const YAHOO_USER_AGENT = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
 
-// Simple in-memory cache
-const cache = new Map<string, { data: PriceData[]; timestamp: number }>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-export async function fetchIndianStockData(symbol: string): Promise<PriceData[]> {
-  const cacheKey = `india_${symbol}`;
-  const cached = cache.get(cacheKey);
-  
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data;
+export function formatYahooSymbol(symbol: string, assetType: AssetType): string {
+  // Index symbols (^NSEI) are not tied to a listing
+  if (symbol.startsWith('^')) {
+    return symbol;
+  }
+  if (assetType === 'indian_stock') {
+    // The listing symbol says which exchange: bare or .NS for NSE, .BO for BSE
+    const listing = fromIndianListing(symbol);
+    return `${listing.symbol}${listing.exchange === 'BSE' ? '.BO' : '.NS'}`;
   }
+  // Yahoo uses dashes for US share classes: BRK.B -> BRK-B
+  return symbol.replace(/\./g, '-');
+}
+
+// Yahoo has no 4-hour bars; they are built from hourly ones
+const YAHOO_INTERVALS: Record<BarInterval, string> = {
+  '1h': '60m',
+  '4h': '60m',
+  '1d': '1d',
+  '1wk': '1wk',
+};
+
+export async function fetchYahooChartData(formattedSymbol: string, options: HistoryOptions = {}): Promise<PriceData[]> {
+  const lookbackDays = options.lookbackDays ?? 365;
+  const interval = options.interval ?? '1d';
 
-  // For Indian stocks, use NSE/BSE format: RELIANCE.NS or RELIANCE.BO
-  const formattedSymbol = symbol.includes('.') ? symbol : `${symbol}.NS`;
-  
   // Try up to 2 times with retry
   let lastError: Error | null = null;
   for (let attempt = 0; attempt < 2; attempt++) {
     try {
       const endTime = Math.floor(Date.now() / 1000);
-      const startTime = endTime - (365 * 24 * 60 * 60); // 1 year of data
+      const startTime = options.from
+        ? Math.floor(new Date(options.from).getTime() / 1000)
+        : endTime - (lookbackDays * 24 * 60 * 60);
 
-      const response = await axios.get(YAHOO_FINANCE_API, {
+      const response = await scheduleRequest('yahoo', () => axios.get(YAHOO_FINANCE_API, {
         params: {
           symbol: formattedSymbol,
           period1: startTime,
           period2: endTime,
-          interval: '1d',
+          interval: YAHOO_INTERVALS[interval],
         },
         timeout: 10000, // 10 second timeout
         validateStatus: (status) => {
-          // Accept 200-299, reject 500+ but allow 400-499 (might have partial data)
-          return status < 500;
+          // Accept 200-299, reject 500+ but allow 400-499 (might have partial data);
+          // 429 must throw so the rate limiter can back off and retry
+          return status < 500 && status !== 429;
         },
-      });
+      }));
 
       // Check if we got an HTML error page (Yahoo sometimes returns HTML on errors)
       if (typeof response.data === 'string' || !response.data) {
@@ -67,26 +90,28 @@ export async function fetchIndianStockData(symbol: string): Promise<PriceData[]>
       const volumes = quotes.volume;
 
       const priceData: PriceData[] = timestamps.map((timestamp: number, index: number) => ({
-        date: new Date(timestamp * 1000).toISOString().split('T')[0],
-        open: opens[index] || 0,
-        high: highs[index] || 0,
-        low: lows[index] || 0,
-        close: closes[index] || 0,
-        volume: volumes[index] || 0,
-      })).filter((data: PriceData) => data.close > 0);
-
-      if (priceData.length === 0) {
+        date: isIntraday(interval)
+          ? new Date(timestamp * 1000).toISOString()
+          : new Date(timestamp * 1000).toISOString().split('T')[0],
+        // Missing values stay NaN so data-quality validation can repair or drop them
+        open: opens[index] ?? NaN,
+        high: highs[index] ?? NaN,
+        low: lows[index] ?? NaN,
+        close: closes[index] ?? NaN,
+        volume: volumes[index] ?? NaN,
+      }));
+
+      if (!priceData.some(data => data.close > 0)) {
         throw new Error(`No valid price data found for symbol ${formattedSymbol}`);
       }
 
-      cache.set(cacheKey, { data: priceData, timestamp: Date.now() });
-      return priceData;
+      return interval === '4h' ? resampleBars(priceData, '4h') : priceData;
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
       // Log on first attempt, don't spam on retry
       if (attempt === 0) {
-        console.warn(`Attempt ${attempt + 1} failed for ${symbol}, retrying...`);
+        console.warn(`Attempt ${attempt + 1} failed for ${formattedSymbol}, retrying...`);
       }
       
       // Wait a bit before retrying (except on last attempt)
@@ -98,45 +123,42 @@ export async function fetchIndianStockData(symbol: string): Promise<PriceData[]>
 
   // All attempts failed
   const errorMessage = lastError?.message || 'Unknown error';
-  console.error(`Error fetching Indian stock data for ${symbol} after retries:`, errorMessage);
-  throw new Error(`Failed to fetch Indian stock data for ${symbol}: ${errorMessage}`);
+  console.error(`Error fetching Yahoo chart data for ${formattedSymbol} after retries:`, errorMessage);
+  throw new Error(`Failed to fetch Yahoo chart data for ${formattedSymbol}: ${errorMessage}`);
 }
 
-export async function getIndianStockQuote(symbol: string): Promise<{
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-}> {
-  const formattedSymbol = symbol.includes('.') ? symbol : `${symbol}.NS`;
-  
-  try {
-    const response = await axios.get(YAHOO_FINANCE_API, {
-      params: {
-        symbol: formattedSymbol,
-        range: '1d',
-        interval: '1m',
-      },
-      timeout: 5000, // 5 second timeout
-      validateStatus: (status) => status < 500, // Don't throw on 4xx errors, but throw on 5xx
-    });
+async function fetchYahooMeta(formattedSymbol: string) {
+  const response = await scheduleRequest('yahoo', () => axios.get(YAHOO_FINANCE_API, {
+    params: {
+      symbol: formattedSymbol,
+      range: '1d',
+      interval: '1m',
+    },
+    timeout: 5000, // 5 second timeout
+    validateStatus: (status) => status < 500 && status !== 429, // Don't throw on 4xx errors, but throw on 429 and 5xx
+  }));
 
-    // Check if we got an error response from Yahoo
-    if (response.status >= 400 || !response.data || typeof response.data === 'string') {
-      // Yahoo returns HTML error pages sometimes
-      throw new Error(`Yahoo Finance API returned error for ${formattedSymbol}`);
-    }
+  // Check if we got an error response from Yahoo
+  if (response.status >= 400 || !response.data || typeof response.data === 'string') {
+    // Yahoo returns HTML error pages sometimes
+    throw new Error(`Yahoo Finance API returned error for ${formattedSymbol}`);
+  }
 
-    if (!response.data.chart || !response.data.chart.result || response.data.chart.result.length === 0) {
-      throw new Error(`No quote data available for symbol ${formattedSymbol}`);
-    }
+  if (!response.data.chart || !response.data.chart.result || response.data.chart.result.length === 0) {
+    throw new Error(`No quote data available for symbol ${formattedSymbol}`);
+  }
 
-    const result = response.data.chart.result[0];
-    if (!result || !result.meta) {
-      throw new Error(`Invalid quote data structure for symbol ${formattedSymbol}`);
-    }
+  const result = response.data.chart.result[0];
+  if (!result || !result.meta) {
+    throw new Error(`Invalid quote data structure for symbol ${formattedSymbol}`);
+  }
+
+  return result.meta;
+}
 
-    const meta = result.meta;
+export async function getYahooQuote(formattedSymbol: string): Promise<Quote> {
+  try {
+    const meta = await fetchYahooMeta(formattedSymbol);
     const currentPrice = meta.regularMarketPrice;
     const previousClose = meta.previousClose;
 
@@ -151,6 +173,7 @@ export async function getIndianStockQuote(symbol: string): Promise<{
       price: currentPrice,
       change,
       changePercent,
+      currency: meta.currency,
     };
   } catch (error) {
     // Don't log errors here - they're expected and will be handled by the caller
@@ -159,3 +182,196 @@ export async function getIndianStockQuote(symbol: string): Promise<{
   }
 }
 
+interface YahooDividendEvent {
+  amount: number;
+  date: number;
+}
+
+interface YahooSplitEvent {
+  date: number;
+  numerator: number;
+  denominator: number;
+}
+
+export async function fetchYahooCorporateActions(formattedSymbol: string, options: HistoryOptions = {}): Promise<CorporateAction[]> {
+  const lookbackDays = options.lookbackDays ?? 365;
+  const endTime = Math.floor(Date.now() / 1000);
+  const startTime = options.from
+    ? Math.floor(new Date(options.from).getTime() / 1000)
+    : endTime - (lookbackDays * 24 * 60 * 60);
+
+  // Events come back regardless of interval, so ask for monthly bars to keep the payload small
+  const response = await scheduleRequest('yahoo', () => axios.get(YAHOO_FINANCE_API, {
+    params: {
+      symbol: formattedSymbol,
+      period1: startTime,
+      period2: endTime,
+      interval: '1mo',
+      events: 'div,splits',
+    },
+    timeout: 10000,
+    validateStatus: (status) => status < 500 && status !== 429,
+  }));
+
+  if (typeof response.data === 'string' || !response.data?.chart?.result?.length) {
+    throw new Error(`No corporate action data available for symbol ${formattedSymbol}`);
+  }
+
+  const events = response.data.chart.result[0].events || {};
+  const toDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().split('T')[0];
+
+  const dividends: CorporateAction[] = Object.values<YahooDividendEvent>(events.dividends || {})
+    .filter(dividend => dividend.amount > 0)
+    .map(dividend => ({
+      date: toDate(dividend.date),
+      type: 'dividend',
+      amount: dividend.amount,
+    }));
+
+  const splits: CorporateAction[] = Object.values<YahooSplitEvent>(events.splits || {})
+    .filter(split => split.numerator > 0 && split.denominator > 0)
+    .map(split => ({
+      date: toDate(split.date),
+      type: 'split',
+      ratio: split.numerator / split.denominator,
+    }));
+
+  return [...splits, ...dividends];
+}
+
+export async function getYahooMetadata(formattedSymbol: string): Promise<AssetMetadata> {
+  const meta = await fetchYahooMeta(formattedSymbol);
+
+  return {
+    symbol: meta.symbol || formattedSymbol,
+    name: meta.longName || meta.shortName || meta.symbol || formattedSymbol,
+    exchange: meta.fullExchangeName || meta.exchangeName,
+    currency: meta.currency,
+  };
+}
+
+// quoteSummary wraps every number as { raw, fmt }
+type YahooValue = { raw?: number } | undefined;
+
+function rawValue(value: YahooValue): number | undefined {
+  return typeof value?.raw === 'number' && isFinite(value.raw) ? value.raw : undefined;
+}
+
+interface YahooSession {
+  cookie: string;
+  crumb: string;
+}
+
+// One session is shared by every caller and reused until Yahoo rejects it
+let yahooSession: Promise<YahooSession> | null = null;
+
+async function createYahooSession(): Promise<YahooSession> {
+  // fc.yahoo.com answers 404 but sets the session cookie
+  const cookieResponse = await scheduleRequest('yahoo', () => axios.get(YAHOO_COOKIE_URL, {
+    headers: { 'User-Agent': YAHOO_USER_AGENT },
+    maxRedirects: 0,
+    timeout: 10000,
+    validateStatus: (status) => status < 500 && status !== 429,
+  }));
+  const cookie = (cookieResponse.headers['set-cookie'] || []).map(entry => entry.split(';')[0]).join('; ');
+  if (!cookie) {
+    throw new Error('Yahoo did not issue a session cookie');
+  }
+
+  const crumbResponse = await scheduleRequest('yahoo', () => axios.get<string>(YAHOO_CRUMB_API, {
+    headers: { 'User-Agent': YAHOO_USER_AGENT, Cookie: cookie },
+    responseType: 'text',
+    timeout: 10000,
+  }));
+  const crumb = String(crumbResponse.data ?? '').trim();
+  if (!crumb || crumb.includes('<')) {
+    throw new Error('Yahoo did not issue a crumb');
+  }
+  return { cookie, crumb };
+}
+
+function getYahooSession(): Promise<YahooSession> {
+  if (!yahooSession) {
+    yahooSession = createYahooSession().catch(error => {
+      yahooSession = null;
+      throw error;
+    });
+  }
+  return yahooSession;
+}
+
+async function requestQuoteSummary(formattedSymbol: string) {
+  const session = await getYahooSession();
+  return scheduleRequest('yahoo', () => axios.get(`${YAHOO_QUOTE_SUMMARY_API}/${formattedSymbol}`, {
+    params: {
+      modules: 'summaryDetail,defaultKeyStatistics,financialData,assetProfile',
+      crumb: session.crumb,
+    },
+    headers: { 'User-Agent': YAHOO_USER_AGENT, Cookie: session.cookie },
+    timeout: 10000,
+    validateStatus: (status) => status < 500 && status !== 429,
+  }));
+}
+
+const isRejected = (status: number) => status === 401 || status === 403;
+
+export async function fetchYahooFundamentals(formattedSymbol: string): Promise<FundamentalSnapshot> {
+  let response = await requestQuoteSummary(formattedSymbol);
+  // An expired session is renewed once
+  if (isRejected(response.status)) {
+    yahooSession = null;
+    response = await requestQuoteSummary(formattedSymbol);
+  }
+  // A rejection is a provider failure, not a symbol without fundamentals
+  if (isRejected(response.status)) {
+    throw new Error(`Yahoo rejected the fundamentals request for ${formattedSymbol} (HTTP ${response.status})`);
+  }
+
+  const result = response.data?.quoteSummary?.result?.[0];
+  if (typeof response.data === 'string' || !result) {
+    throw new Error(`No fundamental data available for symbol ${formattedSymbol}`);
+  }
+
+  const summary = result.summaryDetail || {};
+  const keyStats = result.defaultKeyStatistics || {};
+  const financials = result.financialData || {};
+  const profile = result.assetProfile || {};
+  // Yahoo reports debt/equity as a percentage
+  const debtToEquity = rawValue(financials.debtToEquity);
+
+  return {
+    sector: profile.sector,
+    industry: profile.industry,
+    trailingPE: rawValue(summary.trailingPE),
+    forwardPE: rawValue(summary.forwardPE) ?? rawValue(keyStats.forwardPE),
+    priceToBook: rawValue(keyStats.priceToBook),
+    epsGrowth: rawValue(financials.earningsGrowth) ?? rawValue(keyStats.earningsQuarterlyGrowth),
+    revenueGrowth: rawValue(financials.revenueGrowth),
+    returnOnEquity: rawValue(financials.returnOnEquity),
+    debtToEquity: debtToEquity !== undefined ? debtToEquity / 100 : undefined,
+    dividendYield: rawValue(summary.dividendYield),
+    marketCap: rawValue(summary.marketCap),
+  };
+}
+
+export const yahooFinanceProvider: MarketDataProvider = {
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+  capabilities: {
+    assetTypes: ['us_stock', 'indian_stock'],
+    history: true,
+    quote: true,
+    metadata: true,
+    corporateActions: true,
+    fundamentals: true,
+    intervals: ['1h', '4h', '1d', '1wk'],
+  },
+  isAvailable: () => true,
+  getHistory: (symbol: string, assetType: AssetType, options?: HistoryOptions) =>
+    fetchYahooChartData(formatYahooSymbol(symbol, assetType), options),
+  getQuote: (symbol: string, assetType: AssetType) => getYahooQuote(formatYahooSymbol(symbol, assetType)),
+  getMetadata: (symbol: string, assetType: AssetType) => getYahooMetadata(formatYahooSymbol(symbol, assetType)),
+  getCorporateActions: (symbol: string, assetType: AssetType, options?: HistoryOptions) =>
+    fetchYahooCorporateActions(formatYahooSymbol(symbol, assetType), options),
+  getFundamentals: (symbol: string, assetType: AssetType) => fetchYahooFundamentals(formatYahooSymbol(symbol, assetType)),
+};
@@ -0,0 +1,38 @@
+// Currencies the UI and the `currency` query parameter accept
+export const SUPPORTED_CURRENCIES = ['USD', 'INR', 'EUR', 'GBP', 'JPY'] as const;
+
+export const DEFAULT_DISPLAY_CURRENCY = 'USD';
+
+// Returns the upper-cased code, or null for anything we cannot convert to
+export function parseCurrency(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const code = value.trim().toUpperCase();
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(code) ? code : null;
+}
+
+export function formatPrice(value: number, currency: string = DEFAULT_DISPLAY_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: value !== 0 && Math.abs(value) < 1 ? 6 : 2, // sub-dollar coins need more digits
+    }).format(value);
+  } catch {
+    // Unknown code: show it rather than guess a symbol
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
+
+export function formatMarketCap(marketCap: number, currency: string = DEFAULT_DISPLAY_CURRENCY): string {
+  if (marketCap >= 1e12) {
+    return `${formatPrice(marketCap / 1e12, currency)}T`;
+  } else if (marketCap >= 1e9) {
+    return `${formatPrice(marketCap / 1e9, currency)}B`;
+  } else if (marketCap >= 1e6) {
+    return `${formatPrice(marketCap / 1e6, currency)}M`;
+  }
+  return formatPrice(marketCap, currency);
+}
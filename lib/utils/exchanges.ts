@@ -0,0 +1,30 @@
+import { IndianExchange } from '@/types';
+
+export const INDIAN_EXCHANGES: IndianExchange[] = ['NSE', 'BSE'];
+
+// Indian listings are identified by Yahoo-style suffixes. NSE is the default
+// listing and keeps the bare ticker, so stored history and recorded fixtures
+// from before BSE support stay valid; BSE listings carry `.BO`.
+const BSE_SUFFIX = '.BO';
+const NSE_SUFFIX = '.NS';
+
+export function parseIndianExchange(value: string | null | undefined): IndianExchange | null {
+  const exchange = value?.trim().toUpperCase();
+  return INDIAN_EXCHANGES.includes(exchange as IndianExchange) ? exchange as IndianExchange : null;
+}
+
+export function toIndianListing(symbol: string, exchange: IndianExchange): string {
+  const { symbol: base } = fromIndianListing(symbol);
+  return exchange === 'BSE' ? `${base}${BSE_SUFFIX}` : base;
+}
+
+export function fromIndianListing(listing: string): { symbol: string; exchange: IndianExchange } {
+  const upper = listing.toUpperCase();
+  if (upper.endsWith(BSE_SUFFIX)) {
+    return { symbol: listing.slice(0, -BSE_SUFFIX.length), exchange: 'BSE' };
+  }
+  if (upper.endsWith(NSE_SUFFIX)) {
+    return { symbol: listing.slice(0, -NSE_SUFFIX.length), exchange: 'NSE' };
+  }
+  return { symbol: listing, exchange: 'NSE' };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countTradingDaysBetween,
+  findLookbackIndex,
+  getCacheExpiry,
+  getMarketSession,
+  getSessionCloseTime,
+  isTradingDay,
+  subtractTradingDays,
+} from '@/lib/utils/marketCalendar';
+import { PriceData } from '@/types';
+
+const MINUTE_MS = 60 * 1000;
+
+function bars(dates: string[]): PriceData[] {
+  return dates.map(date => ({ date, open: 1, high: 1, low: 1, close: 1, volume: 1 }));
+}
+
+describe('isTradingDay', () => {
+  it('closes NYSE on rule-based holidays and weekends', () => {
+    expect(isTradingDay('2024-01-15', 'us_stock')).toBe(false); // Martin Luther King Jr. Day
+    expect(isTradingDay('2024-03-29', 'us_stock')).toBe(false); // Good Friday
+    expect(isTradingDay('2024-06-19', 'us_stock')).toBe(false); // Juneteenth
+    expect(isTradingDay('2024-11-28', 'us_stock')).toBe(false); // Thanksgiving
+    expect(isTradingDay('2024-03-30', 'us_stock')).toBe(false); // Saturday
+    expect(isTradingDay('2024-03-28', 'us_stock')).toBe(true);
+  });
+
+  it('shifts weekend holidays to the observed weekday', () => {
+    expect(isTradingDay('2022-12-26', 'us_stock')).toBe(false); // Christmas on a Sunday
+    expect(isTradingDay('2026-07-03', 'us_stock')).toBe(false); // July 4th on a Saturday
+    expect(isTradingDay('2021-12-31', 'us_stock')).toBe(true); // New Year's Day 2022 on a Saturday
+  });
+
+  it('only observes Juneteenth from 2022', () => {
+    expect(isTradingDay('2021-06-18', 'us_stock')).toBe(true);
+    expect(isTradingDay('2022-06-20', 'us_stock')).toBe(false);
+  });
+
+  it('uses the published NSE list and falls back to fixed holidays', () => {
+    expect(isTradingDay('2025-10-21', 'indian_stock')).toBe(false); // Diwali
+    expect(isTradingDay('2025-10-21', 'us_stock')).toBe(true);
+    expect(isTradingDay('2027-01-26', 'indian_stock')).toBe(false); // Republic Day, unpublished year
+    expect(isTradingDay('2027-01-27', 'indian_stock')).toBe(true);
+  });
+
+  it('trades crypto every day', () => {
+    expect(isTradingDay('2024-12-25', 'crypto')).toBe(true);
+    expect(isTradingDay('2024-03-30', 'crypto')).toBe(true);
+  });
+});
+
+describe('trading-day arithmetic', () => {
+  it('counts sessions strictly between two dates', () => {
+    expect(countTradingDaysBetween('2024-03-27', '2024-04-02', 'us_stock')).toBe(2);
+    expect(countTradingDaysBetween('2024-03-27', '2024-04-02', 'crypto')).toBe(5);
+    expect(countTradingDaysBetween('2024-03-27', '2024-03-28', 'us_stock')).toBe(0);
+  });
+
+  it('steps back over weekends and holidays', () => {
+    expect(subtractTradingDays('2024-04-01', 1, 'us_stock')).toBe('2024-03-28');
+    expect(subtractTradingDays('2024-04-01', 2, 'us_stock')).toBe('2024-03-27');
+    expect(subtractTradingDays('2024-04-01', 0, 'us_stock')).toBe('2024-04-01');
+  });
+
+  it('counts daily lookbacks in sessions, not bars', () => {
+    const daily = bars(['2024-03-25', '2024-03-26', '2024-03-27', '2024-04-01', '2024-04-02']);
+    expect(findLookbackIndex(daily, 1, 'us_stock')).toBe(3);
+    // Two sessions back is 2024-03-28, whose bar is missing; the bar before it is used
+    expect(findLookbackIndex(daily, 2, 'us_stock')).toBe(2);
+    expect(findLookbackIndex(daily, 50, 'us_stock')).toBe(0);
+    expect(findLookbackIndex([], 1, 'us_stock')).toBe(-1);
+  });
+
+  it('counts bars for intraday intervals', () => {
+    const hourly = bars(['2024-04-01T13:30', '2024-04-01T14:30', '2024-04-01T15:30', '2024-04-01T16:30']);
+    expect(findLookbackIndex(hourly, 2, 'us_stock', '1h')).toBe(1);
+    expect(findLookbackIndex(hourly, 10, 'us_stock', '1h')).toBe(0);
+  });
+});
+
+describe('getSessionCloseTime', () => {
+  it('follows daylight saving time in New York', () => {
+    expect(new Date(getSessionCloseTime('2024-01-02', 'us_stock')).toISOString()).toBe('2024-01-02T21:00:00.000Z');
+    expect(new Date(getSessionCloseTime('2024-07-01', 'us_stock')).toISOString()).toBe('2024-07-01T20:00:00.000Z');
+  });
+
+  it('closes NSE at 15:30 IST and crypto at the end of the UTC day', () => {
+    expect(new Date(getSessionCloseTime('2024-01-02', 'indian_stock')).toISOString()).toBe('2024-01-02T10:00:00.000Z');
+    expect(new Date(getSessionCloseTime('2024-01-02T14:00', 'crypto')).toISOString()).toBe('2024-01-02T23:59:59.000Z');
+  });
+});
+
+describe('getMarketSession', () => {
+  it('is open during regular hours', () => {
+    const session = getMarketSession('us_stock', Date.parse('2024-07-01T15:00:00Z'));
+    expect(session).toMatchObject({ exchange: 'NYSE', isMarketOpen: true, lastSessionDate: '2024-07-01' });
+    expect(session.nextOpen).toBe('2024-07-02T13:30:00.000Z');
+  });
+
+  it('points at the previous session before the open', () => {
+    const session = getMarketSession('us_stock', Date.parse('2024-07-01T12:00:00Z'));
+    expect(session).toMatchObject({ isMarketOpen: false, lastSessionDate: '2024-06-28' });
+    expect(session.nextOpen).toBe('2024-07-01T13:30:00.000Z');
+  });
+
+  it('stays closed on a holiday', () => {
+    const session = getMarketSession('us_stock', Date.parse('2024-03-29T16:00:00Z'));
+    expect(session).toMatchObject({ isMarketOpen: false, lastSessionDate: '2024-03-28' });
+    expect(session.nextOpen).toBe('2024-04-01T13:30:00.000Z');
+  });
+
+  it('uses local dates in India', () => {
+    // 22:00 UTC on Sunday is already Monday morning in Kolkata, before the open
+    const session = getMarketSession('indian_stock', Date.parse('2024-07-07T22:00:00Z'));
+    expect(session).toMatchObject({ exchange: 'NSE', isMarketOpen: false, lastSessionDate: '2024-07-05' });
+    expect(session.nextOpen).toBe('2024-07-08T03:45:00.000Z');
+  });
+
+  it('always has crypto open', () => {
+    expect(getMarketSession('crypto', Date.parse('2024-03-30T12:00:00Z'))).toMatchObject({
+      isMarketOpen: true,
+      lastSessionDate: '2024-03-30',
+    });
+  });
+});
+
+describe('getCacheExpiry', () => {
+  it('expires quickly during the session and while the close settles', () => {
+    const duringSession = Date.parse('2024-07-01T15:00:00Z');
+    expect(getCacheExpiry('us_stock', duringSession)).toBe(duringSession + 5 * MINUTE_MS);
+    const afterClose = Date.parse('2024-07-01T20:10:00Z');
+    expect(getCacheExpiry('us_stock', afterClose)).toBe(afterClose + 5 * MINUTE_MS);
+  });
+
+  it('lasts until the next open once the session has settled', () => {
+    expect(getCacheExpiry('us_stock', Date.parse('2024-07-01T22:00:00Z'))).toBe(Date.parse('2024-07-02T13:30:00Z'));
+    expect(getCacheExpiry('us_stock', Date.parse('2024-06-28T22:00:00Z'))).toBe(Date.parse('2024-07-01T13:30:00Z'));
+  });
+
+  it('always uses the short TTL for crypto', () => {
+    const updatedAt = Date.parse('2024-03-30T12:00:00Z');
+    expect(getCacheExpiry('crypto', updatedAt)).toBe(updatedAt + 5 * MINUTE_MS);
+  });
+});
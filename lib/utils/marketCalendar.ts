@@ -0,0 +1,310 @@
+import { AssetType, BarInterval, MarketSession, PriceData } from '@/types';
+
+interface ExchangeCalendar {
+  exchange: string;
+  timezone: string;
+  open: [number, number]; // local [hour, minute]
+  close: [number, number];
+  isHoliday: (date: string) => boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Cache entries written during a session expire quickly; after the close they
+// stay valid until the next open. Providers publish the final bar a little
+// after the bell, so the session counts as live for a while longer.
+const SESSION_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const CLOSE_SETTLE_MS = 30 * 60 * 1000; // 30 minutes
+
+// NSE/BSE publish their holiday list every December; festival dates move with
+// the lunar calendar, so they cannot be derived. Extend this table each year.
+const NSE_HOLIDAYS: Record<number, string[]> = {
+  2024: [
+    '2024-01-22', '2024-01-26', '2024-03-08', '2024-03-25', '2024-03-29', '2024-04-11',
+    '2024-04-17', '2024-05-01', '2024-05-20', '2024-06-17', '2024-07-17', '2024-08-15',
+    '2024-10-02', '2024-11-01', '2024-11-15', '2024-11-20', '2024-12-25',
+  ],
+  2025: [
+    '2025-02-26', '2025-03-14', '2025-03-31', '2025-04-10', '2025-04-14', '2025-04-18',
+    '2025-05-01', '2025-08-15', '2025-08-27', '2025-10-02', '2025-10-21', '2025-10-22',
+    '2025-11-05', '2025-12-25',
+  ],
+  2026: [
+    '2026-01-26', '2026-03-03', '2026-03-26', '2026-03-31', '2026-04-03', '2026-04-14',
+    '2026-05-01', '2026-05-28', '2026-06-26', '2026-09-14', '2026-10-02', '2026-10-20',
+    '2026-11-10', '2026-11-24', '2026-12-25',
+  ],
+};
+// Used for years without a published list
+const NSE_FIXED_HOLIDAYS = ['01-26', '05-01', '08-15', '10-02', '12-25'];
+
+const CALENDARS: Record<'us_stock' | 'indian_stock', ExchangeCalendar> = {
+  us_stock: {
+    exchange: 'NYSE',
+    timezone: 'America/New_York',
+    open: [9, 30],
+    close: [16, 0],
+    isHoliday: isNyseHoliday,
+  },
+  indian_stock: {
+    exchange: 'NSE',
+    timezone: 'Asia/Kolkata',
+    open: [9, 15],
+    close: [15, 30],
+    isHoliday: isNseHoliday,
+  },
+};
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// nth weekday of a month (n = -1 for the last one)
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return formatDate(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return formatDate(year, month, lastDay.getUTCDate() - offset);
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatDate(year, month, day);
+}
+
+// Saturday holidays are observed on Friday, Sunday holidays on Monday
+function observed(date: string): string {
+  const day = dayOfWeek(date);
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+const nyseHolidayCache = new Map<number, Set<string>>();
+
+// NYSE/NASDAQ holidays follow fixed rules, so they are computed rather than listed
+function getNyseHolidays(year: number): Set<string> {
+  const cached = nyseHolidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays = [
+    nthWeekday(year, 1, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 2, 1, 3), // Washington's Birthday
+    addDays(easterSunday(year), -2), // Good Friday
+    nthWeekday(year, 5, 1, -1), // Memorial Day
+    observed(formatDate(year, 7, 4)),
+    nthWeekday(year, 9, 1, 1), // Labor Day
+    nthWeekday(year, 11, 4, 4), // Thanksgiving
+    observed(formatDate(year, 12, 25)),
+  ];
+  // New Year's Day falling on a Saturday is not observed on the Friday before
+  const newYear = formatDate(year, 1, 1);
+  if (dayOfWeek(newYear) !== 6) {
+    holidays.push(observed(newYear));
+  }
+  if (year >= 2022) {
+    holidays.push(observed(formatDate(year, 6, 19))); // Juneteenth
+  }
+
+  const result = new Set(holidays);
+  nyseHolidayCache.set(year, result);
+  return result;
+}
+
+function isNyseHoliday(date: string): boolean {
+  return getNyseHolidays(Number(date.slice(0, 4))).has(date);
+}
+
+function isNseHoliday(date: string): boolean {
+  const year = Number(date.slice(0, 4));
+  const published = NSE_HOLIDAYS[year];
+  return published ? published.includes(date) : NSE_FIXED_HOLIDAYS.includes(date.slice(5));
+}
+
+// Wall-clock date and minutes-since-midnight of an instant in a time zone
+function getZonedTime(timestamp: number, timezone: string): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    date: formatDate(get('year'), get('month'), get('day')),
+    minutes: get('hour') * 60 + get('minute'),
+  };
+}
+
+// Epoch millis of a wall-clock time in a time zone (DST-aware)
+function zonedTimeToEpoch(date: string, [hour, minute]: [number, number], timezone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  let epoch = asUtc;
+  // Two passes settle the offset when the guess lands on the other side of a DST change
+  for (let i = 0; i < 2; i++) {
+    const zoned = getZonedTime(epoch, timezone);
+    const [zy, zm, zd] = zoned.date.split('-').map(Number);
+    const zonedAsUtc = Date.UTC(zy, zm - 1, zd, Math.floor(zoned.minutes / 60), zoned.minutes % 60);
+    epoch += asUtc - zonedAsUtc;
+  }
+  return epoch;
+}
+
+export function isTradingDay(date: string, assetType: AssetType): boolean {
+  if (assetType === 'crypto') {
+    return true;
+  }
+  const day = dayOfWeek(date);
+  return day !== 0 && day !== 6 && !CALENDARS[assetType].isHoliday(date);
+}
+
+function previousTradingDay(date: string, assetType: AssetType): string {
+  let candidate = addDays(date, -1);
+  while (!isTradingDay(candidate, assetType)) {
+    candidate = addDays(candidate, -1);
+  }
+  return candidate;
+}
+
+function nextTradingDay(date: string, assetType: AssetType): string {
+  let candidate = addDays(date, 1);
+  while (!isTradingDay(candidate, assetType)) {
+    candidate = addDays(candidate, 1);
+  }
+  return candidate;
+}
+
+// Trading days strictly between two dates
+export function countTradingDaysBetween(from: string, to: string, assetType: AssetType): number {
+  let count = 0;
+  for (let date = addDays(from, 1); date < to; date = addDays(date, 1)) {
+    if (isTradingDay(date, assetType)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// The date `tradingDays` sessions before `date`
+export function subtractTradingDays(date: string, tradingDays: number, assetType: AssetType): string {
+  let result = date;
+  for (let i = 0; i < tradingDays; i++) {
+    result = previousTradingDay(result, assetType);
+  }
+  return result;
+}
+
+// Index of the bar `periods` bars before the latest one. Daily lookbacks count
+// trading sessions rather than bars, which keeps them honest when bars are
+// missing; other intervals count bars.
+export function findLookbackIndex(
+  priceData: PriceData[],
+  periods: number,
+  assetType: AssetType,
+  interval: BarInterval = '1d'
+): number {
+  if (priceData.length === 0) {
+    return -1;
+  }
+  if (interval !== '1d') {
+    return Math.max(0, priceData.length - 1 - periods);
+  }
+  const target = subtractTradingDays(priceData[priceData.length - 1].date, periods, assetType);
+  for (let i = priceData.length - 1; i >= 0; i--) {
+    if (priceData[i].date <= target) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+// The close of the session a bar belongs to. Replayed output anchors the
+// session on it rather than the wall clock, so it stays reproducible.
+export function getSessionCloseTime(barDate: string, assetType: AssetType): number {
+  const date = barDate.slice(0, 10);
+  if (assetType === 'crypto') {
+    return new Date(`${date}T23:59:59Z`).getTime();
+  }
+  const calendar = CALENDARS[assetType];
+  return zonedTimeToEpoch(date, calendar.close, calendar.timezone);
+}
+
+export function getMarketSession(assetType: AssetType, now: number = Date.now()): MarketSession {
+  if (assetType === 'crypto') {
+    return {
+      exchange: 'CRYPTO',
+      timezone: 'UTC',
+      isMarketOpen: true,
+      lastSessionDate: new Date(now).toISOString().split('T')[0],
+    };
+  }
+
+  const calendar = CALENDARS[assetType];
+  const local = getZonedTime(now, calendar.timezone);
+  const openMinutes = calendar.open[0] * 60 + calendar.open[1];
+  const closeMinutes = calendar.close[0] * 60 + calendar.close[1];
+  const tradingToday = isTradingDay(local.date, assetType);
+
+  const isMarketOpen = tradingToday && local.minutes >= openMinutes && local.minutes < closeMinutes;
+  const lastSessionDate = tradingToday && local.minutes >= openMinutes
+    ? local.date
+    : previousTradingDay(local.date, assetType);
+  const nextOpenDate = tradingToday && local.minutes < openMinutes
+    ? local.date
+    : nextTradingDay(local.date, assetType);
+
+  return {
+    exchange: calendar.exchange,
+    timezone: calendar.timezone,
+    isMarketOpen,
+    lastSessionDate,
+    nextOpen: new Date(zonedTimeToEpoch(nextOpenDate, calendar.open, calendar.timezone)).toISOString(),
+  };
+}
+
+// When a cache entry written at `updatedAt` stops being fresh. Data fetched
+// while the market is closed cannot change until the next open.
+export function getCacheExpiry(assetType: AssetType, updatedAt: number): number {
+  const session = getMarketSession(assetType, updatedAt);
+  if (session.isMarketOpen || !session.nextOpen) {
+    return updatedAt + SESSION_CACHE_TTL;
+  }
+
+  const calendar = CALENDARS[assetType as keyof typeof CALENDARS];
+  const lastClose = zonedTimeToEpoch(session.lastSessionDate, calendar.close, calendar.timezone);
+  if (updatedAt < lastClose + CLOSE_SETTLE_MS) {
+    return updatedAt + SESSION_CACHE_TTL;
+  }
+  return new Date(session.nextOpen).getTime();
+}
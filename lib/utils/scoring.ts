@@ -1,12 +1,17 @@
-import { Asset, Recommendation } from '@/types';
-import { calculateFundamentalScore } from '@/lib/analysis/fundamentals';
+import { Asset, PriceLevel, Recommendation, StrategyConfig } from '@/types';
+import { calculateFundamentalScore, getSectorProfile } from '@/lib/analysis/fundamentals';
+import { formatMarketCap, formatPrice } from '@/lib/utils/currency';
+import { INTERVAL_LABELS } from '@/lib/utils/timeframe';
+import { DEFAULT_STRATEGY } from '@/lib/utils/strategy';
+import { CANDLESTICK_LABELS } from '@/lib/analysis/candlesticks';
+import { CHART_PATTERN_LABELS } from '@/lib/analysis/chartPatterns';
+import { BENCHMARKS } from '@/lib/analysis/risk';
+import { REGIME_LABELS } from '@/lib/analysis/regime';
 
 export function calculateOverallScore(asset: Asset): number {
-  // Weight different components
-  const momentumWeight = 0.40;
-  const trendWeight = 0.30;
-  const technicalWeight = 0.20;
-  const fundamentalWeight = 0.10;
+  // Weight different components, with the regime's tilt when one was applied
+  const { crossoverBonus, reversalPenalty } = asset.strategy.scoring;
+  const weights = asset.regime?.weights.scoring ?? asset.strategy.scoring.weights;
 
   // Normalize trend strength to 0-100 scale
   const trendScore = asset.trend.direction === 'uptrend'
@@ -17,42 +22,50 @@ export function calculateOverallScore(asset: Asset): number {
 
   // Adjust for reversal signals
   const trendAdjustedScore = asset.trend.reversalSignal
-    ? trendScore - 10  // Penalize if reversal signal detected
+    ? trendScore - reversalPenalty  // Penalize if reversal signal detected
     : trendScore;
 
   // Get fundamental score
   const fundamentalScore = calculateFundamentalScore(asset.fundamentals);
 
+  // Without a benchmark the asset counts as tracking the market
+  const relativeStrengthScore = asset.relativeStrength?.rating ?? 50;
+
   // Calculate overall score
   const overallScore = (
-    asset.momentum.score * momentumWeight +
-    trendAdjustedScore * trendWeight +
-    asset.momentum.breakdown.technical * technicalWeight +
-    fundamentalScore * fundamentalWeight
+    asset.momentum.score * weights.momentum +
+    trendAdjustedScore * weights.trend +
+    asset.momentum.breakdown.technical * weights.technical +
+    fundamentalScore * weights.fundamental +
+    relativeStrengthScore * weights.relativeStrength
   );
 
   // Bonus for bullish crossovers
   let bonus = 0;
   if (asset.trend.movingAverageCrossover === 'bullish') {
-    bonus += 5;
+    bonus += crossoverBonus;
   } else if (asset.trend.movingAverageCrossover === 'bearish') {
-    bonus -= 5;
+    bonus -= crossoverBonus;
   }
 
   return Math.max(0, Math.min(100, overallScore + bonus));
 }
 
-export function getRecommendation(score: number, confidence: number): Asset['recommendation'] {
+export function getRecommendation(
+  score: number,
+  confidence: number,
+  cutoffs: StrategyConfig['recommendation'] = DEFAULT_STRATEGY.recommendation
+): Asset['recommendation'] {
   // Adjust score based on confidence
   const adjustedScore = score * (confidence / 100);
 
-  if (adjustedScore >= 80) {
+  if (adjustedScore >= cutoffs.strongBuy) {
     return 'strong_buy';
-  } else if (adjustedScore >= 60) {
+  } else if (adjustedScore >= cutoffs.buy) {
     return 'buy';
-  } else if (adjustedScore >= 40) {
+  } else if (adjustedScore >= cutoffs.hold) {
     return 'hold';
-  } else if (adjustedScore >= 20) {
+  } else if (adjustedScore >= cutoffs.sell) {
     return 'sell';
   } else {
     return 'strong_sell';
@@ -66,7 +79,7 @@ export function calculateConfidence(asset: Asset): number {
   const indicators = [
     asset.momentum.score > 60,
     asset.trend.direction === 'uptrend',
-    asset.technicalIndicators.rsi > 50 && asset.technicalIndicators.rsi < 70,
+    asset.technicalIndicators.rsi > 50 && asset.technicalIndicators.rsi < asset.strategy.indicators.rsi.overbought,
     asset.technicalIndicators.macd.MACD > asset.technicalIndicators.macd.signal,
     asset.fundamentals.volumeTrend === 'increasing',
   ];
@@ -82,14 +95,37 @@ export function calculateConfidence(asset: Asset): number {
   // Increase confidence with trend strength
   confidence += asset.trend.strength * 0.2;
 
+  // Candlestick confirmation, when the strategy weights it
+  const { confidenceWeight } = asset.strategy.candlesticks;
+  if (confidenceWeight > 0) {
+    const netBullish = asset.candlestickPatterns.reduce(
+      (net, pattern) => net + (pattern.bias === 'bullish' ? 1 : pattern.bias === 'bearish' ? -1 : 0),
+      0
+    );
+    confidence += netBullish * confidenceWeight;
+  }
+
+  // Decrease confidence for volatile assets: the same score is a less certain call
+  const { volatilityReference, volatilityPenalty } = asset.strategy.risk;
+  confidence -= Math.max(0, asset.risk.volatility - volatilityReference) * volatilityPenalty;
+
   // Decrease confidence if data is limited
-  if (asset.priceData.length < 100) {
+  if (asset.dataQuality.validBars < 100) {
     confidence -= 20;
   }
 
+  // Decrease confidence when the history needed repairs or has gaps
+  confidence -= (100 - asset.dataQuality.score) * 0.3;
+
   return Math.max(0, Math.min(100, confidence));
 }
 
+function describeLevelStrength(level: PriceLevel): string {
+  if (level.strength >= 70) return 'strong';
+  if (level.strength >= 40) return 'moderate';
+  return 'weak';
+}
+
 export function generateRecommendationReasoning(asset: Asset): string[] {
   const reasoning: string[] = [];
 
@@ -108,9 +144,10 @@ export function generateRecommendationReasoning(asset: Asset): string[] {
   }
 
   // Technical indicator reasoning
-  if (asset.technicalIndicators.rsi < 30) {
+  const { rsi: rsiBands, sma: smaPeriods } = asset.strategy.indicators;
+  if (asset.technicalIndicators.rsi < rsiBands.oversold) {
     reasoning.push('RSI indicates oversold conditions, potential buying opportunity');
-  } else if (asset.technicalIndicators.rsi > 70) {
+  } else if (asset.technicalIndicators.rsi > rsiBands.overbought) {
     reasoning.push('RSI indicates overbought conditions, potential selling opportunity');
   }
 
@@ -123,9 +160,9 @@ export function generateRecommendationReasoning(asset: Asset): string[] {
   // Moving average reasoning
   const currentPrice = asset.currentPrice;
   if (currentPrice > asset.technicalIndicators.sma.sma200) {
-    reasoning.push('Price is above 200-day moving average, indicating long-term bullish trend');
+    reasoning.push(`Price is above ${smaPeriods.longPeriod}-${INTERVAL_LABELS[asset.timeframe.interval]} moving average, indicating long-term bullish trend`);
   } else {
-    reasoning.push('Price is below 200-day moving average, indicating long-term bearish trend');
+    reasoning.push(`Price is below ${smaPeriods.longPeriod}-${INTERVAL_LABELS[asset.timeframe.interval]} moving average, indicating long-term bearish trend`);
   }
 
   // Volume reasoning
@@ -135,11 +172,114 @@ export function generateRecommendationReasoning(asset: Asset): string[] {
     reasoning.push('Volume is decreasing, indicating waning interest');
   }
 
+  // Valuation reasoning, judged against the sector's fair band
+  const peRatio = asset.fundamentals.trailingPE;
+  if (peRatio !== undefined && peRatio > 0) {
+    const [fairLow, fairHigh] = getSectorProfile(asset.fundamentals.sector).peRange;
+    const sectorLabel = asset.fundamentals.sector || 'the market';
+    if (peRatio < fairLow) {
+      reasoning.push(`P/E of ${peRatio.toFixed(1)} is cheap relative to ${sectorLabel} (${fairLow}-${fairHigh})`);
+    } else if (peRatio > fairHigh) {
+      reasoning.push(`P/E of ${peRatio.toFixed(1)} is rich relative to ${sectorLabel} (${fairLow}-${fairHigh})`);
+    }
+  }
+
+  if (asset.fundamentals.epsGrowth !== undefined && Math.abs(asset.fundamentals.epsGrowth) >= 0.10) {
+    reasoning.push(`Earnings ${asset.fundamentals.epsGrowth > 0 ? 'grew' : 'fell'} ${(Math.abs(asset.fundamentals.epsGrowth) * 100).toFixed(0)}% year over year`);
+  }
+
+  // Crypto fundamentals reasoning
+  const crypto = asset.fundamentals.crypto;
+  if (crypto?.marketCapRank !== undefined && crypto.marketCapRank <= 10) {
+    reasoning.push(`Top-10 coin by market cap (rank #${crypto.marketCapRank})`);
+  }
+  if (crypto?.fdvToMarketCap !== undefined && crypto.fdvToMarketCap > 2) {
+    reasoning.push(`⚠️ Fully diluted valuation is ${crypto.fdvToMarketCap.toFixed(1)}x market cap - significant supply still to unlock`);
+  }
+  if (crypto?.athChangePercent !== undefined && crypto.athChangePercent <= -80) {
+    reasoning.push(`Trading ${Math.abs(crypto.athChangePercent).toFixed(0)}% below its all-time high`);
+  }
+
+  // Market regime the weights were tilted for
+  if (asset.regime) {
+    const breadth = asset.regime.breadth === null ? '' : `, ${(asset.regime.breadth * 100).toFixed(0)}% of the list above its average`;
+    reasoning.push(`${BENCHMARKS[asset.type].name} market is ${REGIME_LABELS[asset.regime.name]}${breadth}; scoring weights adapted`);
+  }
+
+  // Risk reasoning
+  const { risk } = asset;
+  if (risk.volatility > asset.strategy.risk.volatilityReference) {
+    reasoning.push(`⚠️ High volatility: ${risk.volatility.toFixed(0)}% annualized, max drawdown ${risk.maxDrawdown.toFixed(0)}% over the window`);
+  }
+  if (risk.beta !== null && risk.beta >= 1.5) {
+    reasoning.push(`Beta of ${risk.beta.toFixed(2)} against the ${BENCHMARKS[asset.type].name} - moves amplify the market's`);
+  }
+
+  // Relative strength against the benchmark
+  const rs = asset.relativeStrength;
+  if (rs && Math.abs(rs.longTermExcess) >= 5) {
+    const benchmarkName = BENCHMARKS[asset.type].name;
+    const bars = `${asset.strategy.relativeStrength.longLookback} ${INTERVAL_LABELS[asset.timeframe.interval]}s`;
+    reasoning.push(rs.longTermExcess > 0
+      ? `Outperformed the ${benchmarkName} by ${rs.longTermExcess.toFixed(1)} points over ${bars}`
+      : `Underperformed the ${benchmarkName} by ${Math.abs(rs.longTermExcess).toFixed(1)} points over ${bars}`);
+  }
+  if (rs && rs.rank !== null && (rs.rank >= 80 || rs.rank <= 20)) {
+    reasoning.push(`Relative strength rank ${rs.rank} - ${rs.rank >= 80 ? 'a leader' : 'a laggard'} among the assets analyzed`);
+  }
+
+  // Nearby support and resistance
+  const { nearestSupport, nearestResistance } = asset.supportResistance;
+  const proximityPercent = asset.strategy.supportResistance.proximity * 100;
+  if (nearestResistance && nearestResistance.distancePercent <= proximityPercent) {
+    reasoning.push(`Price ${nearestResistance.distancePercent.toFixed(1)}% below ${describeLevelStrength(nearestResistance)} resistance at ${formatPrice(nearestResistance.price, asset.currency)}`);
+  }
+  if (nearestSupport && -nearestSupport.distancePercent <= proximityPercent) {
+    reasoning.push(`Price ${(-nearestSupport.distancePercent).toFixed(1)}% above ${describeLevelStrength(nearestSupport)} support at ${formatPrice(nearestSupport.price, asset.currency)}`);
+  }
+
+  // Chart patterns that are still live (failed ones carry no signal)
+  asset.trend.chartPatterns
+    .filter(pattern => pattern.status !== 'failed')
+    .slice(0, 2)
+    .forEach(pattern => {
+      const label = CHART_PATTERN_LABELS[pattern.pattern];
+      const breakout = formatPrice(pattern.breakoutLevel, asset.currency);
+      const target = formatPrice(pattern.target, asset.currency);
+      reasoning.push(pattern.status === 'confirmed'
+        ? `${label} confirmed by a break of ${breakout}; measured-move target ${target}`
+        : `${label} forming (${pattern.bias}); a break of ${breakout} would target ${target}`);
+    });
+
+  // Candlestick patterns
+  asset.candlestickPatterns.slice(0, 3).forEach(pattern => {
+    const bias = pattern.bias === 'neutral' ? 'indecision' : `${pattern.bias} signal`;
+    reasoning.push(`${CANDLESTICK_LABELS[pattern.pattern]} candlestick pattern on ${pattern.date} (${bias})`);
+  });
+
   // Reversal signal
   if (asset.trend.reversalSignal) {
     reasoning.push('⚠️ Reversal signal detected - trend may be changing');
   }
 
+  // Most recent divergence (events are sorted newest first)
+  const divergence = asset.trend.divergences.find(event => event.barsAgo <= asset.strategy.divergence.recentBars);
+  if (divergence) {
+    const indicatorLabel = divergence.indicator.toUpperCase();
+    reasoning.push(`${divergence.kind === 'classic' ? 'Classic' : 'Hidden'} ${divergence.direction} ${indicatorLabel} divergence between ${divergence.startDate} and ${divergence.endDate} (strength ${divergence.strength.toFixed(0)})`);
+  }
+
+  // Corporate actions applied to the history
+  const appliedSplits = asset.corporateActions.filter(action => action.type === 'split' && action.applied);
+  appliedSplits.forEach(split => {
+    reasoning.push(`Prices adjusted for a ${split.ratio}-for-1 split on ${split.date}`);
+  });
+
+  // Data quality caveat
+  if (asset.dataQuality.score < 80) {
+    reasoning.push(`⚠️ Data quality score of ${asset.dataQuality.score.toFixed(0)} (${asset.dataQuality.repairedBars} bars repaired, ${asset.dataQuality.missingDays} days missing) lowers confidence`);
+  }
+
   // Crossover reasoning
   if (asset.trend.movingAverageCrossover === 'bullish') {
     reasoning.push('Golden cross detected - bullish signal');
@@ -152,29 +292,32 @@ export function generateRecommendationReasoning(asset: Asset): string[] {
 
 export function generateKeyMetrics(asset: Asset): { label: string; value: string | number }[] {
   return [
-    { label: 'Current Price', value: `$${asset.currentPrice.toFixed(2)}` },
+    { label: 'Current Price', value: formatPrice(asset.currentPrice, asset.currency) },
     { label: 'Price Change', value: `${asset.priceChangePercent > 0 ? '+' : ''}${asset.priceChangePercent.toFixed(2)}%` },
     { label: 'RSI', value: asset.technicalIndicators.rsi.toFixed(2) },
     { label: 'Momentum Score', value: asset.momentum.score.toFixed(1) },
     { label: 'Trend', value: asset.trend.direction },
     { label: 'Trend Strength', value: `${asset.trend.strength.toFixed(1)}%` },
     { label: 'Confidence', value: `${asset.confidence.toFixed(1)}%` },
+    ...(asset.relativeStrength ? [{ label: 'RS Rating', value: asset.relativeStrength.rating.toFixed(0) }] : []),
+    ...(asset.relativeStrength?.rank ? [{ label: 'RS Rank', value: asset.relativeStrength.rank }] : []),
+    { label: 'Volatility', value: `${asset.risk.volatility.toFixed(1)}%` },
+    ...(asset.risk.beta !== null ? [{ label: 'Beta', value: asset.risk.beta.toFixed(2) }] : []),
+    { label: 'Max Drawdown', value: `-${asset.risk.maxDrawdown.toFixed(1)}%` },
+    ...(asset.risk.sharpeRatio !== null ? [{ label: 'Sharpe Ratio', value: asset.risk.sharpeRatio.toFixed(2) }] : []),
+    { label: `VaR (${(asset.strategy.risk.varConfidence * 100).toFixed(0)}%)`, value: `-${asset.risk.valueAtRisk.toFixed(1)}%` },
     ...(asset.fundamentals.peRatio ? [{ label: 'P/E Ratio', value: asset.fundamentals.peRatio.toFixed(2) }] : []),
-    ...(asset.fundamentals.marketCap ? [{ label: 'Market Cap', value: formatMarketCap(asset.fundamentals.marketCap) }] : []),
+    ...(asset.fundamentals.forwardPE ? [{ label: 'Forward P/E', value: asset.fundamentals.forwardPE.toFixed(2) }] : []),
+    ...(asset.fundamentals.priceToBook ? [{ label: 'P/B Ratio', value: asset.fundamentals.priceToBook.toFixed(2) }] : []),
+    ...(asset.fundamentals.returnOnEquity !== undefined ? [{ label: 'ROE', value: `${(asset.fundamentals.returnOnEquity * 100).toFixed(1)}%` }] : []),
+    ...(asset.fundamentals.dividendYield ? [{ label: 'Dividend Yield', value: `${(asset.fundamentals.dividendYield * 100).toFixed(2)}%` }] : []),
+    ...(asset.fundamentals.marketCap ? [{ label: 'Market Cap', value: formatMarketCap(asset.fundamentals.marketCap, asset.currency) }] : []),
+    ...(asset.fundamentals.crypto?.marketCapRank ? [{ label: 'Market Cap Rank', value: `#${asset.fundamentals.crypto.marketCapRank}` }] : []),
+    ...(asset.fundamentals.crypto?.fdvToMarketCap ? [{ label: 'FDV / Market Cap', value: asset.fundamentals.crypto.fdvToMarketCap.toFixed(2) }] : []),
+    ...(asset.fundamentals.crypto?.volumeToMarketCap ? [{ label: 'Turnover (24h)', value: `${(asset.fundamentals.crypto.volumeToMarketCap * 100).toFixed(1)}%` }] : []),
   ];
 }
 
-function formatMarketCap(marketCap: number): string {
-  if (marketCap >= 1e12) {
-    return `$${(marketCap / 1e12).toFixed(2)}T`;
-  } else if (marketCap >= 1e9) {
-    return `$${(marketCap / 1e9).toFixed(2)}B`;
-  } else if (marketCap >= 1e6) {
-    return `$${(marketCap / 1e6).toFixed(2)}M`;
-  }
-  return `$${marketCap.toFixed(2)}`;
-}
-
 export function createRecommendation(asset: Asset): Recommendation {
   return {
     asset,
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STRATEGY, parseStrategy, resolveStrategyConfig, validateStrategyConfig } from '@/lib/utils/strategy';
+
+function resolveError(configJson: string): string {
+  const result = parseStrategy(null, configJson);
+  if (!('error' in result)) {
+    throw new Error('expected the config to be rejected');
+  }
+  return result.error;
+}
+
+describe('validateStrategyConfig', () => {
+  it('accepts the default strategy', () => {
+    expect(validateStrategyConfig(DEFAULT_STRATEGY)).toEqual([]);
+  });
+});
+
+describe('resolveStrategyConfig', () => {
+  it('returns the preset unchanged without overrides', () => {
+    expect(resolveStrategyConfig('us_stock')).toEqual({ config: DEFAULT_STRATEGY });
+  });
+
+  it('deep-merges overrides without touching the preset', () => {
+    const result = resolveStrategyConfig('us_stock', 'default', { indicators: { rsi: { period: 21 } } });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.config.indicators.rsi).toEqual({ period: 21, oversold: 30, overbought: 70 });
+    expect(result.config.indicators.macd).toEqual(DEFAULT_STRATEGY.indicators.macd);
+    expect(DEFAULT_STRATEGY.indicators.rsi.period).toBe(14);
+  });
+
+  it('applies asset-type overrides after the shared ones', () => {
+    const overrides = {
+      indicators: { rsi: { oversold: 25 } },
+      assetTypes: { crypto: { indicators: { rsi: { oversold: 20, overbought: 85 } } } },
+    };
+    const crypto = resolveStrategyConfig('crypto', 'default', overrides);
+    const stock = resolveStrategyConfig('us_stock', 'default', overrides);
+    if ('error' in crypto) throw new Error(crypto.error);
+    if ('error' in stock) throw new Error(stock.error);
+
+    expect(crypto.config.indicators.rsi).toMatchObject({ oversold: 20, overbought: 85 });
+    expect(stock.config.indicators.rsi).toMatchObject({ oversold: 25, overbought: 70 });
+  });
+
+  it('rejects unknown presets', () => {
+    expect(resolveStrategyConfig('us_stock', 'aggressive')).toEqual({
+      error: 'Unknown strategy preset: aggressive (use default)',
+    });
+  });
+
+  it('rejects an echoed preset that differs from the requested one', () => {
+    const result = resolveStrategyConfig('us_stock', 'default', { preset: 'aggressive' });
+    expect(result).toEqual({
+      error: 'Invalid strategy config: preset "aggressive" does not match the requested preset default',
+    });
+  });
+});
+
+describe('parseStrategy', () => {
+  it('resolves every asset type', () => {
+    const result = parseStrategy(null, null);
+    if ('error' in result) throw new Error(result.error);
+    expect(Object.keys(result.strategies).sort()).toEqual(['crypto', 'indian_stock', 'us_stock']);
+  });
+
+  it('accepts a full config echoed back from a response', () => {
+    const result = parseStrategy(null, JSON.stringify(DEFAULT_STRATEGY));
+    if ('error' in result) throw new Error(result.error);
+    expect(result.strategies.crypto).toEqual(DEFAULT_STRATEGY);
+  });
+
+  it('reports malformed JSON and non-object configs', () => {
+    expect(resolveError('{')).toBe('Invalid strategy config: not valid JSON');
+    expect(resolveError('[1, 2]')).toBe('Invalid strategy config: expected a JSON object');
+  });
+
+  it('reports unknown settings by path', () => {
+    expect(resolveError('{"indicators":{"rsi":{"lenght":21}}}')).toBe(
+      'Invalid strategy config: Unknown strategy setting: indicators.rsi.lenght'
+    );
+  });
+
+  it('reports non-numeric values and non-object groups', () => {
+    expect(resolveError('{"indicators":{"rsi":{"period":"21"}}}')).toContain('indicators.rsi.period must be a number');
+    expect(resolveError('{"indicators":{"rsi":14}}')).toContain('indicators.rsi must be an object');
+  });
+
+  it('collects merge and validation errors together', () => {
+    const error = resolveError('{"indicators":{"macd":{"fastPeriod":30}},"scoring":{"weights":{"momentum":0.5}},"foo":1}');
+    expect(error).toContain('Unknown strategy setting: foo');
+    expect(error).toContain('indicators.macd.fastPeriod must be shorter than slowPeriod');
+    expect(error).toContain('scoring.weights must sum to 1 (got 1.100)');
+  });
+
+  it('rejects unknown asset types in per-type overrides', () => {
+    expect(resolveError('{"assetTypes":{"forex":{}}}')).toBe(
+      'Invalid strategy config: assetTypes only accepts us_stock, indian_stock, crypto'
+    );
+  });
+
+  it('validates per-type overrides under their own path', () => {
+    expect(resolveError('{"assetTypes":{"crypto":{"risk":{"varConfidence":"high"}}}}')).toContain(
+      'assetTypes.crypto.risk.varConfidence must be a number'
+    );
+  });
+});
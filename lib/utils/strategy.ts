@@ -0,0 +1,408 @@
+import { AssetType, StrategyConfig, StrategyOverrides } from '@/types';
+
+const ASSET_TYPES: AssetType[] = ['us_stock', 'indian_stock', 'crypto'];
+const WEIGHT_TOLERANCE = 0.001;
+
+// Regime profiles tilt the weights rather than replace them, so base weights
+// set by a request still count. An all-ones tilt leaves them unchanged.
+const NEUTRAL_MOMENTUM_TILT = {
+  rsi: 1, macd: 1, sma: 1, bollingerBands: 1, stochastic: 1, adx: 1, volume: 1, mfi: 1, cci: 1, williamsR: 1,
+};
+const NEUTRAL_SCORING_TILT = { momentum: 1, trend: 1, technical: 1, fundamental: 1, relativeStrength: 1 };
+// Trending markets lean on trend-following inputs, range-bound ones on mean-reversion oscillators
+const TREND_FOLLOWING_TILT = {
+  momentum: { ...NEUTRAL_MOMENTUM_TILT, rsi: 0.5, macd: 1.5, sma: 1.5, bollingerBands: 0.5, stochastic: 0.5, adx: 1.5, mfi: 0.5, cci: 0.5, williamsR: 0.5 },
+  scoring: { ...NEUTRAL_SCORING_TILT, trend: 1.5, technical: 0.75, relativeStrength: 1.5 },
+};
+
+export const DEFAULT_STRATEGY: StrategyConfig = {
+  preset: 'default',
+  indicators: {
+    rsi: { period: 14, oversold: 30, overbought: 70 },
+    macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+    sma: { shortPeriod: 20, mediumPeriod: 50, longPeriod: 200 },
+    ema: { fastPeriod: 12, slowPeriod: 26 },
+    bollingerBands: { period: 20, stdDev: 2 },
+    stochastic: { period: 14, signalPeriod: 3, oversold: 20, overbought: 80 },
+    adx: { period: 14, trendThreshold: 25 },
+    volumeSma: { period: 20 },
+    atr: { period: 14 },
+    vwap: { period: 20 },
+    mfi: { period: 14, oversold: 20, overbought: 80 },
+    cci: { period: 20, oversold: -100, overbought: 100 },
+    williamsR: { period: 14, oversold: -80, overbought: -20 },
+    parabolicSar: { step: 0.02, max: 0.2 },
+    ichimoku: { conversionPeriod: 9, basePeriod: 26, spanPeriod: 52, displacement: 26 },
+    keltnerChannels: { period: 20, atrPeriod: 10, multiplier: 2 },
+  },
+  momentum: {
+    shortLookback: 20,
+    longLookback: 50,
+    weights: {
+      rsi: 0.15,
+      macd: 0.20,
+      sma: 0.20,
+      bollingerBands: 0.10,
+      stochastic: 0.10,
+      adx: 0.10,
+      volume: 0.15,
+      // The extended oscillators are reported but not scored unless weighted
+      mfi: 0,
+      cci: 0,
+      williamsR: 0,
+    },
+    blend: { technical: 0.6, shortTerm: 0.25, longTerm: 0.15 },
+  },
+  divergence: {
+    window: 60,
+    pivotBars: 3,
+    recentBars: 10,
+    minStrength: 30,
+  },
+  chartPatterns: {
+    window: 120,
+    pivotBars: 5,
+    tolerance: 0.03,
+    poleBars: 10,
+    poleMinMove: 0.08,
+    flagMaxBars: 20,
+    recentBars: 10,
+  },
+  supportResistance: {
+    window: 120,
+    pivotBars: 3,
+    clusterTolerance: 0.015,
+    volumeBins: 30,
+    maxLevels: 6,
+    proximity: 0.03,
+  },
+  relativeStrength: {
+    shortLookback: 20,
+    longLookback: 50,
+    mansfieldPeriod: 50,
+  },
+  regime: {
+    trendPeriod: 50,
+    slopeBars: 20,
+    minSlope: 0.02,
+    volatilityBars: 20,
+    highVolatilityRatio: 1.5,
+    lowVolatilityRatio: 0.75,
+    minBreadth: 0.4,
+    profiles: {
+      trending_up: TREND_FOLLOWING_TILT,
+      trending_down: TREND_FOLLOWING_TILT,
+      range_bound: {
+        momentum: { ...NEUTRAL_MOMENTUM_TILT, rsi: 1.5, macd: 0.5, sma: 0.5, bollingerBands: 2, stochastic: 1.5, adx: 0.5, mfi: 1.5, cci: 1.5, williamsR: 1.5 },
+        scoring: { ...NEUTRAL_SCORING_TILT, momentum: 0.75, trend: 0.5, technical: 1.5 },
+      },
+      // Fundamentals hold up better than price signals in a volatile market
+      high_volatility: {
+        momentum: NEUTRAL_MOMENTUM_TILT,
+        scoring: { ...NEUTRAL_SCORING_TILT, momentum: 0.75, fundamental: 1.5 },
+      },
+      low_volatility: { momentum: NEUTRAL_MOMENTUM_TILT, scoring: NEUTRAL_SCORING_TILT },
+    },
+  },
+  risk: {
+    riskFreeRate: 0,
+    varConfidence: 0.95,
+    volatilityReference: 40,
+    volatilityPenalty: 0.25,
+  },
+  candlesticks: {
+    lookbackBars: 5,
+    trendBars: 5,
+    confidenceWeight: 0,
+  },
+  trend: {
+    systemWeight: 0,
+  },
+  scoring: {
+    // Relative strength is reported but not scored unless weighted
+    weights: { momentum: 0.40, trend: 0.30, technical: 0.20, fundamental: 0.10, relativeStrength: 0 },
+    crossoverBonus: 5,
+    reversalPenalty: 10,
+  },
+  recommendation: { strongBuy: 80, buy: 60, hold: 40, sell: 20 },
+};
+
+// Named starting points for the `strategy` query parameter
+const STRATEGY_PRESETS: Record<string, StrategyConfig> = {
+  default: DEFAULT_STRATEGY,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Deep-merges an override into a copy of `base`. Unknown keys and non-numeric
+// values are reported, so a typo cannot silently fall back to the default.
+function mergeOverrides<T extends object>(base: T, override: unknown, path: string, errors: string[]): T {
+  if (!isPlainObject(override)) {
+    errors.push(`${path || 'strategy config'} must be an object`);
+    return base;
+  }
+
+  const merged = { ...base } as Record<string, unknown>;
+  Object.entries(override).forEach(([key, value]) => {
+    const keyPath = path ? `${path}.${key}` : key;
+    const current = merged[key];
+    if (current === undefined || key === 'preset') {
+      errors.push(`Unknown strategy setting: ${keyPath}`);
+    } else if (isPlainObject(current)) {
+      merged[key] = mergeOverrides(current, value, keyPath, errors);
+    } else if (typeof value !== 'number' || !isFinite(value)) {
+      errors.push(`${keyPath} must be a number`);
+    } else {
+      merged[key] = value;
+    }
+  });
+  return merged as T;
+}
+
+function checkPeriods(group: Record<string, number>, path: string, errors: string[]) {
+  Object.entries(group).forEach(([key, value]) => {
+    if (/period$/i.test(key) && (!Number.isInteger(value) || value < 1)) {
+      errors.push(`${path}.${key} must be a positive integer`);
+    }
+  });
+}
+
+function checkBands(
+  band: { oversold: number; overbought: number },
+  path: string,
+  errors: string[],
+  [min, max]: [number, number] = [0, 100]
+) {
+  if (!(band.oversold > min && band.oversold < band.overbought && band.overbought < max)) {
+    errors.push(`${path} needs ${min} < oversold < overbought < ${max}`);
+  }
+}
+
+function checkWeights(weights: Record<string, number>, path: string, errors: string[]) {
+  const values = Object.values(weights);
+  if (values.some(weight => weight < 0)) {
+    errors.push(`${path} must not be negative`);
+  }
+  const total = values.reduce((sum, weight) => sum + weight, 0);
+  if (Math.abs(total - 1) > WEIGHT_TOLERANCE) {
+    errors.push(`${path} must sum to 1 (got ${total.toFixed(3)})`);
+  }
+}
+
+// Returns every problem with a config; an empty list means it is usable
+export function validateStrategyConfig(config: StrategyConfig): string[] {
+  const errors: string[] = [];
+  const { indicators, momentum, scoring, recommendation } = config;
+
+  Object.entries(indicators).forEach(([name, group]) => checkPeriods(group, `indicators.${name}`, errors));
+  checkBands(indicators.rsi, 'indicators.rsi', errors);
+  checkBands(indicators.stochastic, 'indicators.stochastic', errors);
+  checkBands(indicators.mfi, 'indicators.mfi', errors);
+  checkBands(indicators.cci, 'indicators.cci', errors, [-Infinity, Infinity]);
+  checkBands(indicators.williamsR, 'indicators.williamsR', errors, [-100, 0]);
+  if (indicators.macd.fastPeriod >= indicators.macd.slowPeriod) {
+    errors.push('indicators.macd.fastPeriod must be shorter than slowPeriod');
+  }
+  if (indicators.ema.fastPeriod >= indicators.ema.slowPeriod) {
+    errors.push('indicators.ema.fastPeriod must be shorter than slowPeriod');
+  }
+  const { shortPeriod, mediumPeriod, longPeriod } = indicators.sma;
+  if (!(shortPeriod < mediumPeriod && mediumPeriod < longPeriod)) {
+    errors.push('indicators.sma periods must increase: short < medium < long');
+  }
+  if (indicators.bollingerBands.stdDev <= 0) {
+    errors.push('indicators.bollingerBands.stdDev must be positive');
+  }
+  if (!Number.isInteger(indicators.ichimoku.displacement) || indicators.ichimoku.displacement < 0) {
+    errors.push('indicators.ichimoku.displacement must be a non-negative integer');
+  }
+  const { step, max } = indicators.parabolicSar;
+  if (!(step > 0 && step <= max && max < 1)) {
+    errors.push('indicators.parabolicSar needs 0 < step <= max < 1');
+  }
+  if (indicators.keltnerChannels.multiplier <= 0) {
+    errors.push('indicators.keltnerChannels.multiplier must be positive');
+  }
+  if (indicators.adx.trendThreshold <= 0 || indicators.adx.trendThreshold >= 100) {
+    errors.push('indicators.adx.trendThreshold must be between 0 and 100');
+  }
+
+  if (!Number.isInteger(momentum.shortLookback) || momentum.shortLookback < 1 || momentum.longLookback <= momentum.shortLookback) {
+    errors.push('momentum lookbacks need 1 <= shortLookback < longLookback');
+  }
+  checkWeights(momentum.weights, 'momentum.weights', errors);
+  checkWeights(momentum.blend, 'momentum.blend', errors);
+  checkWeights(scoring.weights, 'scoring.weights', errors);
+  const { divergence } = config;
+  if (!Number.isInteger(divergence.pivotBars) || divergence.pivotBars < 1) {
+    errors.push('divergence.pivotBars must be a positive integer');
+  }
+  if (!Number.isInteger(divergence.window) || divergence.window < 4 * divergence.pivotBars) {
+    errors.push('divergence.window must be an integer of at least 4 x pivotBars');
+  }
+  if (!Number.isInteger(divergence.recentBars) || divergence.recentBars < divergence.pivotBars) {
+    errors.push('divergence.recentBars must be an integer no smaller than pivotBars');
+  }
+  if (divergence.minStrength < 0 || divergence.minStrength > 100) {
+    errors.push('divergence.minStrength must be between 0 and 100');
+  }
+  const { chartPatterns } = config;
+  ['window', 'pivotBars', 'poleBars', 'flagMaxBars', 'recentBars'].forEach(key => {
+    const value = chartPatterns[key as keyof typeof chartPatterns];
+    if (!Number.isInteger(value) || value < 1) {
+      errors.push(`chartPatterns.${key} must be a positive integer`);
+    }
+  });
+  if (chartPatterns.tolerance <= 0 || chartPatterns.tolerance >= 0.5) {
+    errors.push('chartPatterns.tolerance must be between 0 and 0.5');
+  }
+  if (chartPatterns.poleMinMove <= 0) {
+    errors.push('chartPatterns.poleMinMove must be positive');
+  }
+
+  const { supportResistance } = config;
+  ['window', 'pivotBars', 'volumeBins', 'maxLevels'].forEach(key => {
+    const value = supportResistance[key as keyof typeof supportResistance];
+    if (!Number.isInteger(value) || value < 1) {
+      errors.push(`supportResistance.${key} must be a positive integer`);
+    }
+  });
+  if (supportResistance.clusterTolerance <= 0 || supportResistance.clusterTolerance >= 0.5) {
+    errors.push('supportResistance.clusterTolerance must be between 0 and 0.5');
+  }
+  if (supportResistance.proximity <= 0) {
+    errors.push('supportResistance.proximity must be positive');
+  }
+
+  const { relativeStrength } = config;
+  if (!Number.isInteger(relativeStrength.shortLookback) || relativeStrength.shortLookback < 1 ||
+    !Number.isInteger(relativeStrength.longLookback) || relativeStrength.longLookback <= relativeStrength.shortLookback) {
+    errors.push('relativeStrength lookbacks need integers with 1 <= shortLookback < longLookback');
+  }
+  if (!Number.isInteger(relativeStrength.mansfieldPeriod) || relativeStrength.mansfieldPeriod < 2) {
+    errors.push('relativeStrength.mansfieldPeriod must be an integer of at least 2');
+  }
+
+  const { regime } = config;
+  ['trendPeriod', 'slopeBars', 'volatilityBars'].forEach(key => {
+    const value = regime[key as 'trendPeriod' | 'slopeBars' | 'volatilityBars'];
+    if (!Number.isInteger(value) || value < 2) {
+      errors.push(`regime.${key} must be an integer of at least 2`);
+    }
+  });
+  if (regime.minSlope < 0) {
+    errors.push('regime.minSlope must not be negative');
+  }
+  if (!(regime.lowVolatilityRatio > 0 && regime.lowVolatilityRatio < 1 && regime.highVolatilityRatio > 1)) {
+    errors.push('regime volatility ratios need 0 < lowVolatilityRatio < 1 < highVolatilityRatio');
+  }
+  if (regime.minBreadth < 0 || regime.minBreadth > 0.5) {
+    errors.push('regime.minBreadth must be between 0 and 0.5');
+  }
+  Object.entries(regime.profiles).forEach(([name, profile]) => {
+    [profile.momentum, profile.scoring].forEach((tilt, i) => {
+      if (Object.values(tilt).some(multiplier => multiplier < 0)) {
+        errors.push(`regime.profiles.${name}.${i === 0 ? 'momentum' : 'scoring'} multipliers must not be negative`);
+      }
+    });
+  });
+
+  const { risk } = config;
+  if (risk.riskFreeRate < 0 || risk.riskFreeRate >= 1) {
+    errors.push('risk.riskFreeRate must be a fraction between 0 and 1');
+  }
+  if (risk.varConfidence <= 0.5 || risk.varConfidence >= 1) {
+    errors.push('risk.varConfidence must be between 0.5 and 1');
+  }
+  if (risk.volatilityReference <= 0 || risk.volatilityPenalty < 0) {
+    errors.push('risk.volatilityReference must be positive and risk.volatilityPenalty not negative');
+  }
+
+  const { candlesticks } = config;
+  if (!Number.isInteger(candlesticks.lookbackBars) || candlesticks.lookbackBars < 1) {
+    errors.push('candlesticks.lookbackBars must be a positive integer');
+  }
+  if (!Number.isInteger(candlesticks.trendBars) || candlesticks.trendBars < 2) {
+    errors.push('candlesticks.trendBars must be an integer of at least 2');
+  }
+  if (candlesticks.confidenceWeight < 0) {
+    errors.push('candlesticks.confidenceWeight must not be negative');
+  }
+  if (config.trend.systemWeight < 0 || config.trend.systemWeight > 1) {
+    errors.push('trend.systemWeight must be between 0 and 1');
+  }
+  if (scoring.crossoverBonus < 0 || scoring.reversalPenalty < 0) {
+    errors.push('scoring.crossoverBonus and scoring.reversalPenalty must not be negative');
+  }
+
+  const { strongBuy, buy, hold, sell } = recommendation;
+  if (!(strongBuy <= 100 && strongBuy > buy && buy > hold && hold > sell && sell >= 0)) {
+    errors.push('recommendation cutoffs must decrease: 100 >= strongBuy > buy > hold > sell >= 0');
+  }
+
+  return errors;
+}
+
+// Applies the preset, then the request-wide overrides, then the overrides for
+// the asset type
+export function resolveStrategyConfig(
+  assetType: AssetType,
+  presetName: string = DEFAULT_STRATEGY.preset,
+  overrides: StrategyOverrides = {}
+): { config: StrategyConfig } | { error: string } {
+  const preset = STRATEGY_PRESETS[presetName];
+  if (!preset) {
+    return { error: `Unknown strategy preset: ${presetName} (use ${Object.keys(STRATEGY_PRESETS).join(', ')})` };
+  }
+
+  const errors: string[] = [];
+  const { assetTypes, preset: namedPreset, ...shared } = overrides;
+  if (namedPreset !== undefined && namedPreset !== presetName) {
+    errors.push(`preset ${JSON.stringify(namedPreset)} does not match the requested preset ${presetName}`);
+  }
+  let config = mergeOverrides(preset, shared, '', errors);
+  if (assetTypes !== undefined) {
+    if (!isPlainObject(assetTypes) || Object.keys(assetTypes).some(key => !ASSET_TYPES.includes(key as AssetType))) {
+      errors.push(`assetTypes only accepts ${ASSET_TYPES.join(', ')}`);
+    } else if (assetTypes[assetType]) {
+      config = mergeOverrides(config, assetTypes[assetType], `assetTypes.${assetType}`, errors);
+    }
+  }
+
+  errors.push(...validateStrategyConfig(config));
+  return errors.length > 0 ? { error: `Invalid strategy config: ${errors.join('; ')}` } : { config };
+}
+
+// Parses the `strategy` (preset name) and `config` (JSON overrides) query
+// parameters and resolves a config for every asset type up front, so a bad
+// override fails the request before any data is fetched
+export function parseStrategy(
+  presetName: string | null,
+  configJson: string | null
+): { strategies: Record<AssetType, StrategyConfig> } | { error: string } {
+  let overrides: StrategyOverrides = {};
+  if (configJson) {
+    try {
+      overrides = JSON.parse(configJson);
+    } catch {
+      return { error: 'Invalid strategy config: not valid JSON' };
+    }
+    if (!isPlainObject(overrides)) {
+      return { error: 'Invalid strategy config: expected a JSON object' };
+    }
+  }
+
+  const strategies = {} as Record<AssetType, StrategyConfig>;
+  for (const assetType of ASSET_TYPES) {
+    // An echoed config sent back on its own brings its preset with it
+    const echoedPreset = typeof overrides.preset === 'string' ? overrides.preset : null;
+    const result = resolveStrategyConfig(assetType, presetName || echoedPreset || DEFAULT_STRATEGY.preset, overrides);
+    if ('error' in result) {
+      return result;
+    }
+    strategies[assetType] = result.config;
+  }
+  return { strategies };
+}
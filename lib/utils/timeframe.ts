@@ -0,0 +1,65 @@
+import { BarInterval, Timeframe } from '@/types';
+
+export const BAR_INTERVALS: BarInterval[] = ['1h', '4h', '1d', '1wk'];
+
+export const DEFAULT_TIMEFRAME: Timeframe = { interval: '1d', lookbackDays: 365 };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const INTERVAL_MS: Record<BarInterval, number> = {
+  '1h': HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '1d': 24 * HOUR_MS,
+  '1wk': 7 * 24 * HOUR_MS,
+};
+
+// Used in reasoning text: "above the 200-week moving average"
+export const INTERVAL_LABELS: Record<BarInterval, string> = {
+  '1h': 'hour',
+  '4h': '4-hour',
+  '1d': 'day',
+  '1wk': 'week',
+};
+
+// Defaults give every interval enough bars for the 200-period average where
+// the providers allow it. Yahoo serves at most 730 days of hourly bars.
+const LOOKBACK_LIMITS: Record<BarInterval, { default: number; max: number }> = {
+  '1h': { default: 30, max: 730 },
+  '4h': { default: 120, max: 730 },
+  '1d': { default: 365, max: 3650 },
+  '1wk': { default: 1825, max: 7300 },
+};
+
+const LOOKBACK_UNITS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+export function isIntraday(interval: BarInterval): boolean {
+  return INTERVAL_MS[interval] < INTERVAL_MS['1d'];
+}
+
+// Parses the `interval` and `lookback` query parameters. Lookback is a number
+// of days or a count with a unit: 90, 90d, 12w, 6m, 2y.
+export function parseTimeframe(
+  interval: string | null,
+  lookback: string | null
+): { timeframe: Timeframe } | { error: string } {
+  const barInterval = (interval || DEFAULT_TIMEFRAME.interval).toLowerCase() as BarInterval;
+  if (!BAR_INTERVALS.includes(barInterval)) {
+    return { error: `Unsupported interval: ${interval} (use ${BAR_INTERVALS.join(', ')})` };
+  }
+
+  const limits = LOOKBACK_LIMITS[barInterval];
+  if (!lookback) {
+    return { timeframe: { interval: barInterval, lookbackDays: limits.default } };
+  }
+
+  const match = lookback.trim().toLowerCase().match(/^(\d+)([dwmy]?)$/);
+  if (!match) {
+    return { error: `Invalid lookback: ${lookback} (e.g. 90, 90d, 12w, 6m, 2y)` };
+  }
+  const lookbackDays = Number(match[1]) * LOOKBACK_UNITS[match[2] || 'd'];
+  if (lookbackDays < 1 || lookbackDays > limits.max) {
+    return { error: `Lookback for ${barInterval} bars must be between 1 and ${limits.max} days` };
+  }
+
+  return { timeframe: { interval: barInterval, lookbackDays } };
+}
@@ -1,7 +1,7 @@
 export type AssetType = 'us_stock' | 'indian_stock' | 'crypto';
 
 export interface PriceData {
-  date: string;
+  date: string; // YYYY-MM-DD for daily and weekly bars (weeks start Monday), ISO timestamp for intraday bars
   open: number;
   high: number;
   low: number;
@@ -9,6 +9,14 @@ export interface PriceData {
   volume: number;
 }
 
+export interface CorporateAction {
+  date: string; // ex-date
+  type: 'split' | 'dividend';
+  ratio?: number; // split: new shares per old share (2 for a 2-for-1 split)
+  amount?: number; // dividend: cash per share in the asset's currency
+  applied?: boolean; // false when the provider's bars already reflected the action
+}
+
 export interface TechnicalIndicators {
   rsi: number;
   macd: {
@@ -37,12 +45,108 @@ export interface TechnicalIndicators {
   adx: number;
   obv: number;
   volumeSMA: number;
+  atr: number; // average true range, in price units
+  vwap: number; // rolling volume-weighted average price
+  mfi: number; // money flow index, 0-100
+  cci: number; // commodity channel index, unbounded around 0
+  williamsR: number; // -100 to 0
+  parabolicSar: number;
+  ichimoku: {
+    conversion: number;
+    base: number;
+    spanA: number; // cloud edges at the latest bar (computed `displacement` bars earlier)
+    spanB: number;
+  };
+  keltnerChannels: {
+    upper: number;
+    middle: number;
+    lower: number;
+  };
 }
 
-export interface FundamentalData {
-  peRatio?: number;
-  marketCap?: number;
+// Indicator values aligned bar-for-bar with `dates`; null until the indicator
+// has seen enough bars to produce a value
+export type SeriesValues = (number | null)[];
+
+export interface IndicatorSeries {
+  dates: string[];
+  rsi: SeriesValues;
+  macd: {
+    MACD: SeriesValues;
+    signal: SeriesValues;
+    histogram: SeriesValues;
+  };
+  sma: {
+    sma20: SeriesValues;
+    sma50: SeriesValues;
+    sma200: SeriesValues;
+  };
+  ema: {
+    ema12: SeriesValues;
+    ema26: SeriesValues;
+  };
+  bollingerBands: {
+    upper: SeriesValues;
+    middle: SeriesValues;
+    lower: SeriesValues;
+  };
+  stochastic: {
+    k: SeriesValues;
+    d: SeriesValues;
+  };
+  adx: SeriesValues;
+  obv: SeriesValues;
+  volumeSMA: SeriesValues;
+  atr: SeriesValues;
+  vwap: SeriesValues;
+  mfi: SeriesValues;
+  cci: SeriesValues;
+  williamsR: SeriesValues;
+  parabolicSar: SeriesValues;
+  ichimoku: {
+    conversion: SeriesValues;
+    base: SeriesValues;
+    spanA: SeriesValues; // shifted forward by `displacement`, so each bar holds the cloud drawn under it
+    spanB: SeriesValues;
+  };
+  keltnerChannels: {
+    upper: SeriesValues;
+    middle: SeriesValues;
+    lower: SeriesValues;
+  };
+}
+
+// Ratios are plain numbers; growth, returns and yields are fractions (0.12 = 12%)
+export interface FundamentalSnapshot {
+  sector?: string;
+  industry?: string;
+  trailingPE?: number;
+  forwardPE?: number;
   priceToBook?: number;
+  epsGrowth?: number; // year over year
+  revenueGrowth?: number; // year over year
+  returnOnEquity?: number;
+  debtToEquity?: number; // 1.5 = total debt is 150% of equity
+  dividendYield?: number;
+  marketCap?: number;
+  crypto?: CryptoFundamentals;
+}
+
+export interface CryptoFundamentals {
+  marketCapRank?: number;
+  circulatingSupply?: number;
+  totalSupply?: number;
+  maxSupply?: number; // undefined for uncapped (inflationary) coins
+  fullyDilutedValuation?: number;
+  fdvToMarketCap?: number; // > 1 means supply still to be unlocked or minted
+  volumeToMarketCap?: number; // 24h turnover
+  allTimeHigh?: number;
+  allTimeHighDate?: string;
+  athChangePercent?: number; // distance from the all-time high, e.g. -45
+}
+
+export interface FundamentalData extends FundamentalSnapshot {
+  peRatio?: number; // trailing P/E
   volumeTrend: 'increasing' | 'decreasing' | 'stable';
   averageVolume: number;
 }
@@ -50,8 +154,67 @@ export interface FundamentalData {
 export interface TrendAnalysis {
   direction: 'uptrend' | 'downtrend' | 'sideways';
   strength: number; // 0-100
-  reversalSignal: boolean;
+  reversalSignal: boolean; // a recent classic divergence points against the trend
   movingAverageCrossover: 'bullish' | 'bearish' | 'none';
+  divergences: DivergenceEvent[];
+  chartPatterns: ChartPattern[]; // most recent occurrence of each pattern
+  // Where price sits relative to each trend-following system
+  systemSignals: {
+    parabolicSar: TrendSignal;
+    ichimoku: TrendSignal;
+    keltnerChannels: TrendSignal;
+  };
+}
+
+export type TrendSignal = 'bullish' | 'bearish' | 'neutral';
+
+// A confirmed swing point: the bar's high (or low) is the extreme of the bars
+// on either side
+export interface Pivot {
+  index: number; // position in the price data
+  date: string;
+  price: number;
+  type: 'high' | 'low';
+}
+
+export type ChartPatternName =
+  | 'double_top'
+  | 'double_bottom'
+  | 'triple_top'
+  | 'triple_bottom'
+  | 'head_and_shoulders'
+  | 'inverse_head_and_shoulders'
+  | 'ascending_triangle'
+  | 'descending_triangle'
+  | 'symmetric_triangle'
+  | 'bull_flag'
+  | 'bear_flag'
+  | 'pennant';
+
+export interface ChartPattern {
+  pattern: ChartPatternName;
+  bias: 'bullish' | 'bearish' | 'neutral'; // symmetric triangles take the side they break out of
+  keyPoints: Pivot[]; // swing points (or pole ends for flags) that define the pattern
+  breakoutLevel: number; // neckline or trendline level at the latest bar
+  target: number; // measured-move objective after a breakout
+  status: 'forming' | 'confirmed' | 'failed';
+  breakoutDate?: string; // close that confirmed or invalidated the pattern
+  startDate: string;
+  endDate: string; // last key point
+}
+
+// Price and an indicator disagreeing between two consecutive swing points.
+// Classic divergences warn of a reversal, hidden ones of trend continuation.
+export interface DivergenceEvent {
+  indicator: 'rsi' | 'macd' | 'obv';
+  kind: 'classic' | 'hidden';
+  direction: 'bullish' | 'bearish';
+  startDate: string;
+  endDate: string;
+  price: { start: number; end: number };
+  indicatorValue: { start: number; end: number };
+  strength: number; // 0-100
+  barsAgo: number; // bars between endDate and the latest bar
 }
 
 export interface MomentumScore {
@@ -65,10 +228,39 @@ export interface MomentumScore {
   };
 }
 
+export type DataQualityIssueType =
+  | 'duplicate_date'
+  | 'invalid_close'
+  | 'invalid_ohlc'
+  | 'high_low_inversion'
+  | 'invalid_volume'
+  | 'zero_volume'
+  | 'outlier_spike'
+  | 'missing_days';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  date: string;
+  action: 'repaired' | 'dropped' | 'flagged';
+  detail: string;
+}
+
+export interface DataQualityReport {
+  score: number; // 0-100
+  totalBars: number; // bars received from the provider
+  validBars: number; // bars passed on to analysis
+  repairedBars: number;
+  droppedBars: number;
+  missingDays: number;
+  issueCounts: Partial<Record<DataQualityIssueType, number>>;
+  issues: DataQualityIssue[]; // most recent issues only
+}
+
 export interface Asset {
   symbol: string;
   name: string;
   type: AssetType;
+  exchange?: string; // listing venue where it matters (Indian stocks: 'NSE' or 'BSE')
   currentPrice: number;
   priceChange: number;
   priceChangePercent: number;
@@ -80,6 +272,155 @@ export interface Asset {
   overallScore: number; // 0-100
   recommendation: 'strong_buy' | 'buy' | 'hold' | 'sell' | 'strong_sell';
   confidence: number; // 0-100
+  dataQuality: DataQualityReport;
+  corporateActions: CorporateAction[]; // actions inside the analysis window
+  dataSource: {
+    history: string; // id of the provider that served priceData
+    quote?: string; // id of the provider that served the quote, if any
+  };
+  marketSession: MarketSession;
+  timeframe: Timeframe; // bar size and window the analysis ran on; indicator periods count these bars
+  currency: string; // ISO 4217 code every price-denominated field is expressed in
+  nativeCurrency: string; // currency the asset is quoted in by its provider
+  fxRate: number; // nativeCurrency -> currency rate applied; 1 when not converted
+  strategy: StrategyConfig; // resolved configuration the asset was scored with
+  candlestickPatterns: CandlestickPattern[]; // recent patterns, newest first
+  supportResistance: SupportResistance;
+  risk: RiskMetrics;
+  relativeStrength: RelativeStrength | null; // null when the benchmark history could not be loaded
+  regime: AppliedRegime | null; // regime whose weight profile was applied; null when it could not be classified
+}
+
+export type MarketRegimeName = 'trending_up' | 'trending_down' | 'range_bound' | 'high_volatility' | 'low_volatility';
+
+// Classified per market from its benchmark and, for list requests, breadth
+export interface MarketRegime {
+  name: MarketRegimeName;
+  assetType: AssetType;
+  benchmark: string;
+  asOf: string; // date of the benchmark's last bar
+  trend: 'up' | 'down' | 'sideways'; // benchmark against its moving average
+  smaSlope: number; // percent change of the benchmark's moving average over regime.slopeBars
+  volatility: number; // benchmark's annualized volatility over regime.volatilityBars, percent
+  volatilityRatio: number; // that volatility over the benchmark's volatility across the window
+  breadth: number | null; // share (0-1) of the analyzed list above its moving average; null for single-asset requests
+}
+
+// The regime an asset was scored under, with the momentum and scoring weights
+// its profile made of the asset's strategy
+export interface AppliedRegime extends MarketRegime {
+  weights: {
+    momentum: StrategyConfig['momentum']['weights'];
+    scoring: StrategyConfig['scoring']['weights'];
+  };
+}
+
+// Performance against the asset type's benchmark, on the bars both share
+export interface RelativeStrength {
+  benchmark: string;
+  // Asset close over benchmark close, rebased to 100 at the start of the
+  // window; trimmed like priceData
+  line: { dates: string[]; values: number[] };
+  mansfield: number | null; // percent the RS line sits above its moving average; null on short histories
+  shortTermExcess: number; // percentage points of return over the benchmark across shortLookback bars
+  longTermExcess: number; // same across longLookback bars
+  rating: number; // 0-100; 50 tracks the benchmark
+  rank: number | null; // 1-99 percentile among the assets analyzed together; null for single-asset requests
+}
+
+// Coefficients of bar returns; null where a pair shares too few returns or one
+// side never moves
+export interface CorrelationMatrix {
+  window: number; // latest shared returns used per pair, at most
+  pearson: (number | null)[][];
+  spearman: (number | null)[][];
+  observations: number[][]; // shared returns each coefficient was computed from
+}
+
+export interface CorrelationReport {
+  source: 'symbols' | 'recommendations';
+  timeframe: Timeframe;
+  assets: { symbol: string; name: string; type: AssetType }[]; // row and column order of the matrices
+  matrices: CorrelationMatrix[]; // one per requested window
+  skipped: { symbol: string; error: string }[]; // requested symbols without usable history
+}
+
+export type RiskLevel = 'low' | 'moderate' | 'high' | 'very_high';
+
+// Computed from bar-to-bar close returns over the analysis window
+export interface RiskMetrics {
+  volatility: number; // annualized standard deviation of returns, percent
+  benchmark: string; // symbol beta is measured against
+  beta: number | null; // null when the benchmark history could not be loaded or does not overlap
+  maxDrawdown: number; // largest peak-to-trough fall of the close, percent (positive)
+  sharpeRatio: number | null; // annualized; null when returns never vary
+  sortinoRatio: number | null; // annualized; null when returns never fall below the risk-free rate
+  valueAtRisk: number; // historical one-bar loss not exceeded at the configured confidence, percent (positive)
+}
+
+export interface PriceLevel {
+  price: number;
+  type: 'support' | 'resistance'; // relative to the current price
+  touches: number; // swing pivots clustered into the level
+  volumeNode: boolean; // whether a high-volume price bin falls inside the level
+  strength: number; // 0-100, from touches, volume and how recently it was tested
+  lastTouchDate?: string; // latest swing pivot in the level
+  distancePercent: number; // from the current price; positive above it
+}
+
+// Classic floor-trader pivots from the last completed bar
+export interface FloorPivots {
+  pivot: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  s1: number;
+  s2: number;
+  s3: number;
+}
+
+export interface FibonacciLevels {
+  direction: 'up' | 'down'; // direction of the swing being retraced
+  swingHigh: { date: string; price: number };
+  swingLow: { date: string; price: number };
+  levels: { ratio: number; price: number }[];
+}
+
+export interface SupportResistance {
+  levels: PriceLevel[]; // strongest first
+  nearestSupport: PriceLevel | null;
+  nearestResistance: PriceLevel | null;
+  floorPivots: FloorPivots;
+  fibonacci: FibonacciLevels | null; // null when the window has no measurable swing
+}
+
+export type CandlestickPatternName =
+  | 'bullish_engulfing'
+  | 'bearish_engulfing'
+  | 'hammer'
+  | 'hanging_man'
+  | 'doji'
+  | 'morning_star'
+  | 'evening_star'
+  | 'three_white_soldiers'
+  | 'three_black_crows'
+  | 'bullish_harami'
+  | 'bearish_harami';
+
+export interface CandlestickPattern {
+  pattern: CandlestickPatternName;
+  bias: 'bullish' | 'bearish' | 'neutral';
+  startDate: string; // first bar of the pattern
+  date: string; // bar that completes the pattern
+  barsAgo: number; // bars between `date` and the latest bar
+}
+
+export interface MarketSession {
+  exchange: string; // 'NYSE', 'NSE' or 'CRYPTO'
+  timezone: string; // IANA zone the session times are defined in
+  isMarketOpen: boolean;
+  lastSessionDate: string; // most recent session that has opened, in exchange-local time
+  nextOpen?: string; // ISO timestamp; omitted for 24/7 markets
 }
 
 export interface Recommendation {
@@ -91,3 +432,207 @@ export interface Recommendation {
   }[];
 }
 
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  currency?: string; // ISO 4217 code, when the provider reports it
+}
+
+export interface AssetMetadata {
+  symbol: string;
+  name: string;
+  exchange?: string;
+  currency?: string;
+}
+
+export type IndianExchange = 'NSE' | 'BSE';
+
+export interface ListingPrice {
+  exchange: string;
+  listing: string; // symbol the price was fetched under, e.g. RELIANCE.BO
+  price: number;
+  changePercent?: number;
+  currency: string;
+  source: 'quote' | 'history'; // history means the last close, used when no live quote was available
+  asOf?: string; // date of the close, for history prices
+}
+
+export interface ExchangeComparison {
+  symbol: string;
+  listings: ListingPrice[];
+  spread?: number; // absolute price difference between the two listings
+  spreadPercent?: number; // spread relative to the cheaper listing
+  cheaperExchange?: string;
+}
+
+export interface SymbolEntry {
+  id: string; // what the analysis takes: the ticker for stocks, the CoinGecko id for coins
+  symbol: string; // ticker as users type it
+  name: string;
+  assetType: AssetType;
+  exchange?: string; // e.g. 'NASDAQ', 'NYSE', 'NSE', 'BSE'
+  isin?: string;
+  aliases: string[]; // other identifiers users search by (BSE scrip code, former tickers, ...)
+  rank?: number; // market-cap rank, where known; breaks ties between same-ticker coins
+}
+
+export interface SymbolMatch extends SymbolEntry {
+  score: number; // 0-100, higher is a closer match
+}
+
+export interface ProviderCapabilities {
+  assetTypes: AssetType[];
+  history: boolean;
+  quote: boolean;
+  metadata: boolean;
+  corporateActions: boolean;
+  fundamentals: boolean;
+  intervals: BarInterval[]; // bar sizes getHistory can serve
+  maxLookbackDays?: number;
+}
+
+export type BarInterval = '1h' | '4h' | '1d' | '1wk';
+
+export interface Timeframe {
+  interval: BarInterval;
+  lookbackDays: number;
+}
+
+export interface HistoryOptions {
+  lookbackDays?: number;
+  from?: string; // ISO date; when set, only bars on or after this date are needed
+  interval?: BarInterval; // defaults to '1d'
+}
+
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+  isAvailable(): boolean; // e.g. false when a required API key is missing
+  getHistory(symbol: string, assetType: AssetType, options?: HistoryOptions): Promise<PriceData[]>;
+  getQuote(symbol: string, assetType: AssetType): Promise<Quote>;
+  getMetadata(symbol: string, assetType: AssetType): Promise<AssetMetadata>;
+  getCorporateActions?(symbol: string, assetType: AssetType, options?: HistoryOptions): Promise<CorporateAction[]>;
+  getFundamentals?(symbol: string, assetType: AssetType): Promise<FundamentalSnapshot>;
+}
+
+// Every tunable number of the analysis. Periods count bars of the analysis
+// interval; weights within a group sum to 1.
+export interface StrategyConfig {
+  preset: string; // preset the config was resolved from
+  indicators: {
+    rsi: { period: number; oversold: number; overbought: number };
+    macd: { fastPeriod: number; slowPeriod: number; signalPeriod: number };
+    // Reported as sma20/sma50/sma200 and ema12/ema26 whatever the periods
+    sma: { shortPeriod: number; mediumPeriod: number; longPeriod: number };
+    ema: { fastPeriod: number; slowPeriod: number };
+    bollingerBands: { period: number; stdDev: number };
+    stochastic: { period: number; signalPeriod: number; oversold: number; overbought: number };
+    adx: { period: number; trendThreshold: number };
+    volumeSma: { period: number };
+    atr: { period: number };
+    vwap: { period: number };
+    mfi: { period: number; oversold: number; overbought: number };
+    cci: { period: number; oversold: number; overbought: number };
+    williamsR: { period: number; oversold: number; overbought: number };
+    parabolicSar: { step: number; max: number };
+    ichimoku: { conversionPeriod: number; basePeriod: number; spanPeriod: number; displacement: number };
+    keltnerChannels: { period: number; atrPeriod: number; multiplier: number };
+  };
+  momentum: {
+    shortLookback: number; // bars behind the latest one for short-term momentum
+    longLookback: number;
+    weights: {
+      rsi: number;
+      macd: number;
+      sma: number;
+      bollingerBands: number;
+      stochastic: number;
+      adx: number;
+      volume: number;
+      mfi: number;
+      cci: number;
+      williamsR: number;
+    };
+    blend: { technical: number; shortTerm: number; longTerm: number };
+  };
+  divergence: {
+    window: number; // bars searched for swing points
+    pivotBars: number; // bars on each side a swing point must dominate
+    recentBars: number; // divergences ending this recently can flag a reversal
+    minStrength: number; // weaker divergences are reported but do not flag a reversal
+  };
+  chartPatterns: {
+    window: number; // bars searched for patterns
+    pivotBars: number; // swing points for chart patterns are wider than for divergences
+    tolerance: number; // relative difference at which two peaks count as level (0.03 = 3%)
+    poleBars: number; // bars a flag pole may take
+    poleMinMove: number; // minimum relative move of a flag pole
+    flagMaxBars: number; // longest consolidation still counted as a flag or pennant
+    recentBars: number; // reversal patterns confirmed this recently flag a reversal
+  };
+  supportResistance: {
+    window: number; // bars searched for levels
+    pivotBars: number; // bars each side confirming a swing pivot
+    clusterTolerance: number; // relative distance within which pivots merge into one level (0.015 = 1.5%)
+    volumeBins: number; // price bins in the volume profile
+    maxLevels: number; // strongest levels kept
+    proximity: number; // levels within this relative distance are called out in the reasoning
+  };
+  relativeStrength: {
+    shortLookback: number; // bars
+    longLookback: number; // bars
+    mansfieldPeriod: number; // moving average of the RS line
+  };
+  regime: {
+    trendPeriod: number; // moving average of the benchmark (and of each asset, for breadth)
+    slopeBars: number; // bars over which the moving average's slope is measured
+    minSlope: number; // relative slope marking a trend (0.02 = 2%)
+    volatilityBars: number; // recent bars compared with the whole window
+    highVolatilityRatio: number; // recent/window volatility at or above this is a high-volatility regime
+    lowVolatilityRatio: number; // at or below this (without a trend) is a low-volatility regime
+    minBreadth: number; // share of the list that must confirm a trend (0.4 = 40% above their average in an uptrend)
+    // Multipliers on the base momentum and scoring weights in each regime;
+    // the tilted weights are renormalized to sum to 1
+    profiles: Record<MarketRegimeName, {
+      momentum: StrategyConfig['momentum']['weights'];
+      scoring: StrategyConfig['scoring']['weights'];
+    }>;
+  };
+  risk: {
+    riskFreeRate: number; // annual, as a fraction (0.04 = 4%)
+    varConfidence: number; // confidence level of the historical Value-at-Risk (0.95 = 95%)
+    volatilityReference: number; // annualized volatility, percent, above which confidence is reduced
+    volatilityPenalty: number; // confidence points taken off per volatility point above the reference
+  };
+  candlesticks: {
+    lookbackBars: number; // patterns must complete within this many recent bars
+    trendBars: number; // bars used to judge the move into a hammer or hanging man
+    confidenceWeight: number; // confidence points per net bullish pattern (0 ignores them)
+  };
+  trend: {
+    // Share of trend strength taken from agreement of Parabolic SAR, Ichimoku
+    // and Keltner Channels with the moving-average trend (0 ignores them)
+    systemWeight: number;
+  };
+  scoring: {
+    weights: { momentum: number; trend: number; technical: number; fundamental: number; relativeStrength: number };
+    crossoverBonus: number; // points added (or removed) on an EMA crossover
+    reversalPenalty: number; // points taken off the trend score on a reversal signal
+  };
+  // Minimum confidence-adjusted score for each recommendation
+  recommendation: { strongBuy: number; buy: number; hold: number; sell: number };
+}
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// Request-level overrides on top of a preset, optionally per asset type
+export type StrategyOverrides = DeepPartial<Omit<StrategyConfig, 'preset'>> & {
+  preset?: string; // an echoed config names its preset, which must match the requested one
+  assetTypes?: Partial<Record<AssetType, DeepPartial<Omit<StrategyConfig, 'preset'>>>>;
+};